@@ -4,20 +4,60 @@
 */
 import React, { useState, ChangeEvent, useRef, useEffect, createContext, useContext, useCallback, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Modality } from '@google/genai';
 import JSZip from 'jszip';
 import ReactCrop, { centerCrop, makeAspectCrop, type Crop, type PixelCrop } from 'react-image-crop';
 
 import { 
-    Language, ExpressionType, Expression, Sticker, TransparencyOptions, GridSize, TransparencySeed, ImageMeta 
+    Language, ExpressionType, Expression, Sticker, TransparencyOptions, GridSize, TransparencySeed, ImageMeta,
+    ImageProviderId, GenerationInputPart, StickerError, StickerVariant, StickerVersion, StickerVersionKind, RefinementTurn,
+    ArtisticStyle, ReferenceImage, ExpressionPromptNotes, ExpressionCategory, ExpressionPack, ExpressionPackImportMode,
+    CharacterImage, StoredProject, StorageEstimate, ProjectSummary, PromptTemplates, PromptInspection, GenerationPartRole, ExpressionSuggestion
 } from './types';
 import { 
     DownloadIcon, BinIcon, EditIcon, RefreshIcon, AddIcon, CameraIcon, 
-    UploadIcon, CameraSwitchIcon, PauseIcon, PlayIcon
+    UploadIcon, CameraSwitchIcon, PauseIcon, PlayIcon, HistoryIcon, CodeIcon, CopyIcon, SlidersIcon,
+    GripIcon, ChevronIcon
 } from './components/Icons';
 import { makeBackgroundTransparent } from './utils/transparency';
-import { generatePrompt } from './utils/prompt-generator';
-import { normalizeImageSize, MAX_STICKER_DIMENSION, dataUrlToBlob } from './utils/image';
+import { generatePrompt, DEFAULT_PROMPT_TEMPLATES, PROMPT_TEMPLATE_PLACEHOLDERS } from './utils/prompt-generator';
+import {
+    normalizeImageSize, MAX_STICKER_DIMENSION, convertToPng, blobToDataUrl, IMPORTABLE_IMAGE_TYPES
+} from './utils/image';
+import { getImageProvider, getDefaultImageProviderId, isImageProviderId, IMAGE_PROVIDER_IDS } from './utils/image-provider';
+import { createJobQueue, type JobQueue, type QueueJobStatus, type QueueJobUpdate } from './utils/generation-queue';
+import {
+    GenerationError, GENERATION_ERROR_INFO, getEmptyResultError, isAutoRetryableError, toStickerError
+} from './utils/generation-errors';
+import { getExpressionSuggester, DEFAULT_SUGGESTION_COUNT } from './utils/expression-suggestions';
+import { getLabelTranslator } from './utils/label-translation';
+import {
+    BUILT_IN_STYLES, DEFAULT_ARTISTIC_STYLE_ID, duplicateStyle, loadStyleLibrary, parseStyleLibrary,
+    resolveArtisticStyle, saveStyleLibrary, serializeStyleLibrary
+} from './utils/style-library';
+import {
+    arrangeIntoSections, canMoveToSection, getArrangedOrder, moveExpression, stepExpression, type ExpressionSection
+} from './utils/expression-layout';
+import {
+    applyExpressionPack, createExpressionPack, getPackText, parseExpressionPack, resolveCategoryId, serializeExpressionPack
+} from './utils/expression-packs';
+import { STARTER_EXPRESSION_PACKS } from './utils/starter-packs';
+import {
+    DEFAULT_PROJECT_ID, PROJECT_SCHEMA_VERSION, deleteProject, duplicateProject, getStorageEstimate, isQuotaExceededError,
+    listProjects, loadProject, renameProject, requestPersistentStorage, saveProject
+} from './utils/project-store';
+import { buildShareUrl, decodeSharedList, encodeSharedList, readSharedListParam } from './utils/share-link';
+import { PROJECT_FILE_EXTENSION, ProjectFileError, exportProjectFile, importProjectFile } from './utils/project-file';
+import {
+    getPackSizes, getStickerExporter, StickerExportError, STICKER_EXPORT_PLATFORMS,
+    type StickerExportPlatform, type StickerExportResult, type StickerPackInfo
+} from './utils/sticker-export';
+import {
+    createStickerPackManifest, isZipFile, matchPackStickers, readStickerPackZip, STICKER_PACK_MANIFEST_PATH, type PackZipMatch
+} from './utils/pack-zip';
+import {
+    DEFAULT_ENCODE_SETTINGS, encodeStickerImage, ImageEncodeError, isStickerEncodeFormat, needsEncoding, STICKER_ENCODE_FORMATS, WEBP_TOP_QUALITY,
+    type EncodedSticker, type StickerEncodeFormat, type StickerEncodeSettings
+} from './utils/image-encoder';
 
 import './index.css';
 
@@ -31,6 +71,9 @@ const getDataUrlByteSize = (dataUrl: string): number => {
     return Math.floor(base64.length * 0.75) - padding;
 };
 
+const getDataUrlMimeType = (dataUrl: string): string =>
+    dataUrl.match(/^data:(.*?)[;,]/)?.[1] || 'image/png';
+
 const formatBytes = (bytes: number): string => {
     if (!bytes || bytes < 0) {
         return '0 B';
@@ -288,9 +331,6 @@ const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
     );
 };
 
-// --- Gemini API Configuration ---
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
 // --- App Constants ---
 const POPULAR_EMOJIS = [
     '😊', '😂', '😍', '🥰', '😎', '🤔', '😉', '😋', '😜', '🤪', 
@@ -303,6 +343,130 @@ const POPULAR_EMOJIS = [
 // --- Helper Functions ---
 const dataUrlToBase64 = (dataUrl: string) => dataUrl.split(',')[1];
 
+const createIdleSticker = (expression: Expression): Sticker => ({
+    ...expression,
+    imageUrl: null,
+    originalImageUrl: null,
+    status: 'idle',
+    imageMeta: null,
+    variants: [],
+    selectedVariant: -1,
+    versions: [],
+    currentVersionId: null,
+    refinements: [],
+});
+
+// Jobs do not survive a reload, so anything that was in flight comes back as finished or idle.
+const restoreSavedSticker = (sticker: Sticker): Sticker => {
+    const isBusy = sticker.status === 'queued' || sticker.status === 'running' || sticker.status === 'retrying';
+    if (!sticker.imageUrl && (isBusy || sticker.status === 'done')) {
+        return { ...sticker, status: 'idle', attempt: undefined };
+    }
+    return isBusy ? { ...sticker, status: 'done', attempt: undefined } : sticker;
+};
+
+// Feedback from the root of the thread down to (and including) the given turn.
+const getRefinementPath = (turns: RefinementTurn[], turnId: string | null): RefinementTurn[] => {
+    const path: RefinementTurn[] = [];
+    let cursor = turns.find(turn => turn.id === turnId);
+    while (cursor) {
+        path.unshift(cursor);
+        const parentId: string | null = cursor.parentId;
+        cursor = turns.find(turn => turn.id === parentId);
+    }
+    return path;
+};
+
+// Mirrors the chosen variant onto the sticker's display/download fields.
+const applyVariant = (sticker: Sticker, variants: StickerVariant[], index: number): Sticker => {
+    const variant = variants[index];
+    if (!variant) {
+        return { ...sticker, variants, selectedVariant: -1 };
+    }
+    return {
+        ...sticker,
+        variants,
+        selectedVariant: index,
+        imageUrl: variant.imageUrl,
+        originalImageUrl: variant.originalImageUrl,
+        imageMeta: variant.imageMeta,
+        status: variant.error ? 'error' : 'done',
+        error: variant.error,
+    };
+};
+
+// Snapshots the sticker's current image as a new history entry.
+const recordVersion = (
+    sticker: Sticker,
+    kind: StickerVersionKind,
+    details: Partial<Pick<StickerVersion, 'prompt' | 'feedback' | 'transparencyOptions' | 'revertedFrom'>> = {},
+): Sticker => {
+    if (!sticker.imageUrl || !sticker.originalImageUrl || !sticker.imageMeta) {
+        return sticker;
+    }
+    const previous = sticker.versions.find(v => v.id === sticker.currentVersionId);
+    const version: StickerVersion = {
+        id: crypto.randomUUID(),
+        kind,
+        createdAt: Date.now(),
+        imageUrl: sticker.imageUrl,
+        originalImageUrl: sticker.originalImageUrl,
+        imageMeta: sticker.imageMeta,
+        prompt: details.prompt ?? previous?.prompt ?? '',
+        feedback: 'feedback' in details ? details.feedback : previous?.feedback,
+        transparencyOptions: details.transparencyOptions !== undefined
+            ? details.transparencyOptions
+            : previous?.transparencyOptions ?? null,
+        revertedFrom: details.revertedFrom,
+    };
+    return { ...sticker, versions: [...sticker.versions, version], currentVersionId: version.id };
+};
+
+type RegenerationInfo = { feedback: string; feedbackHistory: string[]; baseImageUrl: string; turnId: string };
+
+/**
+ * One run of a sticker: a queue job per variant. The sticker shows the busiest job's status and
+ * takes the new variants together once every job has settled.
+ */
+type VariantRound = {
+    stickerId: string;
+    jobs: Map<string, QueueJobStatus>; // Job id -> latest status, in seed order
+    variants: (StickerVariant | undefined)[]; // By seed order, filled in as jobs finish
+    error?: unknown; // First failure, reported when no variant came through
+    regenerationInfo?: RegenerationInfo;
+};
+
+// Busiest first; a sticker with any of these jobs left is still in progress
+const ACTIVE_JOB_STATUSES: QueueJobStatus[] = ['running', 'retrying', 'queued'];
+
+const withExpressionId = (expression: Omit<Expression, 'id'> & { id?: string }): Expression => ({
+    ...expression,
+    id: typeof expression.id === 'string' && expression.id ? expression.id : crypto.randomUUID(),
+});
+
+// v1 sessions had no `version` and keyed stickers by label; v2 gives every expression an id.
+const SESSION_VERSION = 2;
+
+const migrateSavedExpressions = (saved: unknown[]): Expression[] => {
+    const seenIds = new Set<string>();
+    return saved
+        .filter((item): item is Omit<Expression, 'id'> & { id?: string } =>
+            Boolean(item) && typeof (item as Expression).label === 'string')
+        .map(item => {
+            const expression = withExpressionId(item);
+            // Older builds could store the same label twice; ids must stay unique.
+            const unique = seenIds.has(expression.id) ? { ...expression, id: crypto.randomUUID() } : expression;
+            seenIds.add(unique.id);
+            return unique;
+        });
+};
+
+const getExpressionLabel = (expression: Expression, language: Language, t: (key: string) => string): string =>
+    expression.isDefault ? t(expression.label) : expression.labels?.[language]?.trim() || expression.label;
+
+const getStyleDisplayName = (style: ArtisticStyle, language: Language, t: (key: string) => string): string =>
+    style.nameKey ? t(style.nameKey) : style.name[language] || style.name.en;
+
 const downloadImage = (imageUrl: string, filename: string) => {
   const link = document.createElement('a');
   link.href = imageUrl;
@@ -312,6 +476,21 @@ const downloadImage = (imageUrl: string, filename: string) => {
   document.body.removeChild(link);
 };
 
+const DEVELOPER_MODE_STORAGE_KEY = 'stickerMeDeveloperMode';
+const PACK_PUBLISHER_STORAGE_KEY = 'stickerMePackPublisher';
+const DEFAULT_GENERATION_CONCURRENCY = 2;
+const GENERATION_CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+const GENERATION_MAX_RETRIES = 3;
+const DEFAULT_VARIANTS_PER_STICKER = 1;
+const VARIANTS_PER_STICKER_OPTIONS = [1, 2, 3, 4];
+const EXPORT_BUDGET_OPTIONS_KB = [0, 50, 100, 300, 500]; // 0 leaves stickers at full quality
+const GENERATION_RETRY_BASE_DELAY_MS = 2000;
+const GENERATION_RETRY_MAX_DELAY_MS = 30000;
+const PROJECT_SAVE_DELAY_MS = 800;
+const PROJECT_THUMBNAIL_SIZE = 96;
+
+type ProjectSaveState = 'idle' | 'saving' | 'saved' | 'error' | 'unavailable';
+
 const DEFAULT_TRANSPARENCY_OPTIONS: TransparencyOptions = {
     colorTol: 10,
     tileGuess: 16,
@@ -353,6 +532,7 @@ type HeaderProps = {
     subtitleKey?: string;
     collapseTitleKey?: string;
     variant?: 'default' | 'explainer';
+    extra?: React.ReactNode; // Shown next to the language switcher
 };
 
 const Header = ({
@@ -362,6 +542,7 @@ const Header = ({
     subtitleKey,
     collapseTitleKey,
     variant = 'default',
+    extra,
 }: HeaderProps) => {
     const { t } = useLanguage();
     const [isCollapsed, setIsCollapsed] = useState(false);
@@ -396,11 +577,175 @@ const Header = ({
                 <h1>{titleText}</h1>
                 {subtitleKey ? <p className="header-subtitle">{t(subtitleKey)}</p> : null}
             </div>
-            <LanguageSwitcher />
+            <div className="header-end">
+                {extra}
+                <LanguageSwitcher />
+            </div>
         </header>
     );
 };
 
+const ProjectSwitcher = ({
+    projects,
+    activeProjectId,
+    activeProjectName,
+    activeThumbnail,
+    onSwitch,
+    onCreate,
+    onRename,
+    onDuplicate,
+    onDelete,
+    onExport,
+    onImport,
+}: {
+    projects: ProjectSummary[];
+    activeProjectId: string;
+    activeProjectName: string;
+    activeThumbnail: string | null;
+    onSwitch: (id: string) => void;
+    onCreate: () => void;
+    onRename: (id: string, name: string) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+    onExport: () => void;
+    onImport: (file: File) => void;
+}) => {
+    const { t } = useLanguage();
+    const [isOpen, setIsOpen] = useState(false);
+    const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+    const switcherRef = useRef<HTMLDivElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (switcherRef.current && !switcherRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+                setRenaming(null);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    // The open project may not have reached IndexedDB yet, so it is always listed
+    const listed = projects.some(p => p.id === activeProjectId)
+        ? projects
+        : [{ id: activeProjectId, name: activeProjectName, updatedAt: Date.now(), thumbnail: activeThumbnail, stickerCount: 0 }, ...projects];
+
+    const handleRename = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (renaming && renaming.name.trim()) {
+            onRename(renaming.id, renaming.name.trim());
+        }
+        setRenaming(null);
+    };
+
+    const handleImportFile = (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) {
+            setIsOpen(false);
+            onImport(file);
+        }
+    };
+
+    const renderThumbnail = (thumbnail: string | null) => (
+        thumbnail
+            ? <img src={thumbnail} alt="" className="project-thumbnail" />
+            : <span className="project-thumbnail placeholder" aria-hidden="true">👤</span>
+    );
+
+    return (
+        <div className="project-switcher" ref={switcherRef}>
+            <button
+                type="button"
+                className="project-switcher-button"
+                onClick={() => setIsOpen(!isOpen)}
+                aria-expanded={isOpen}
+                aria-haspopup="true"
+                title={t('projectSwitcherTooltip')}
+            >
+                {renderThumbnail(activeThumbnail)}
+                <span className="project-switcher-name">{activeProjectName}</span>
+                <ChevronIcon />
+            </button>
+            {isOpen && (
+                <div className="project-switcher-menu">
+                    <ul className="project-list">
+                        {listed.map(project => {
+                            const isActive = project.id === activeProjectId;
+                            const name = isActive ? activeProjectName : project.name || t('defaultProjectName');
+                            return (
+                                <li key={project.id} className={`project-list-item ${isActive ? 'active' : ''}`}>
+                                    {renaming?.id === project.id ? (
+                                        <form className="project-rename-form" onSubmit={handleRename}>
+                                            <input
+                                                type="text"
+                                                value={renaming.name}
+                                                onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+                                                aria-label={t('renameProjectTooltip')}
+                                                autoFocus
+                                            />
+                                            <button type="submit" className="modal-button primary">{t('saveButton')}</button>
+                                        </form>
+                                    ) : (
+                                        <button
+                                            type="button"
+                                            className="project-open-button"
+                                            onClick={() => {
+                                                setIsOpen(false);
+                                                onSwitch(project.id);
+                                            }}
+                                            aria-current={isActive}
+                                        >
+                                            {renderThumbnail(isActive ? activeThumbnail : project.thumbnail)}
+                                            <span className="project-list-text">
+                                                <span className="project-list-name">{name}</span>
+                                                <span className="project-list-meta">{t('projectStickerCount', { count: String(project.stickerCount) })}</span>
+                                            </span>
+                                        </button>
+                                    )}
+                                    <span className="project-list-actions">
+                                        <button type="button" className="style-library-icon-button" onClick={() => setRenaming({ id: project.id, name })} title={t('renameProjectTooltip')} aria-label={`${t('renameProjectTooltip')} ${name}`}><EditIcon /></button>
+                                        <button type="button" className="style-library-icon-button" onClick={() => onDuplicate(project.id)} title={t('duplicateTooltip')} aria-label={`${t('duplicateTooltip')} ${name}`}><CopyIcon /></button>
+                                        <button type="button" className="style-library-icon-button" onClick={() => onDelete(project.id)} title={t('deleteTooltip')} aria-label={`${t('deleteTooltip')} ${name}`}><BinIcon /></button>
+                                    </span>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                    <button
+                        type="button"
+                        className="modal-button primary project-new-button"
+                        onClick={() => {
+                            setIsOpen(false);
+                            onCreate();
+                        }}
+                    >
+                        <AddIcon /> {t('newProjectButton')}
+                    </button>
+                    <div className="project-file-actions">
+                        <button
+                            type="button"
+                            className="modal-button secondary"
+                            onClick={() => {
+                                setIsOpen(false);
+                                onExport();
+                            }}
+                        >
+                            <DownloadIcon /> {t('exportProjectButton')}
+                        </button>
+                        <button type="button" className="modal-button secondary" onClick={() => importInputRef.current?.click()}>
+                            <UploadIcon /> {t('importProjectButton')}
+                        </button>
+                    </div>
+                    <input ref={importInputRef} type="file" accept={`${PROJECT_FILE_EXTENSION},application/zip`} onChange={handleImportFile} style={{ display: 'none' }} />
+                </div>
+            )}
+        </div>
+    );
+};
+
 const ImageCropper = ({
     imageSrc,
     onSave,
@@ -494,6 +839,26 @@ const StickerCreator = ({
   onTransparentChange,
   artisticStyle,
   onArtisticStyleChange,
+  customStyles,
+  onManageStyles,
+  styleReference,
+  onStyleReferenceSelect,
+  onStyleReferenceRemove,
+  exclusions,
+  onExclusionsChange,
+  providerId,
+  onProviderChange,
+  providerSelectRef,
+  concurrency,
+  onConcurrencyChange,
+  variantsPerSticker,
+  onVariantsPerStickerChange,
+  exportFormat,
+  onExportFormatChange,
+  exportBudgetKb,
+  onExportBudgetChange,
+  isDeveloperMode,
+  onDeveloperModeChange,
   onRestoreDefaults,
 }: {
   characterImage: { data: string; width: number; height: number; byteSize: number; } | null;
@@ -506,10 +871,31 @@ const StickerCreator = ({
   onTransparentChange: (event: ChangeEvent<HTMLInputElement>) => void;
   artisticStyle: string;
   onArtisticStyleChange: (event: ChangeEvent<HTMLSelectElement>) => void;
+  customStyles: ArtisticStyle[];
+  onManageStyles: () => void;
+  styleReference: ReferenceImage | null;
+  onStyleReferenceSelect: (file: File) => void;
+  onStyleReferenceRemove: () => void;
+  exclusions: string;
+  onExclusionsChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  providerId: ImageProviderId;
+  onProviderChange: (event: ChangeEvent<HTMLSelectElement>) => void;
+  providerSelectRef: React.RefObject<HTMLSelectElement>;
+  concurrency: number;
+  onConcurrencyChange: (event: ChangeEvent<HTMLSelectElement>) => void;
+  variantsPerSticker: number;
+  onVariantsPerStickerChange: (event: ChangeEvent<HTMLSelectElement>) => void;
+  exportFormat: StickerEncodeFormat;
+  onExportFormatChange: (event: ChangeEvent<HTMLSelectElement>) => void;
+  exportBudgetKb: number;
+  onExportBudgetChange: (event: ChangeEvent<HTMLSelectElement>) => void;
+  isDeveloperMode: boolean;
+  onDeveloperModeChange: (event: ChangeEvent<HTMLInputElement>) => void;
   onRestoreDefaults: () => void;
 }) => {
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const [isDragging, setIsDragging] = useState(false);
+  const styleReferenceInputRef = useRef<HTMLInputElement>(null);
   const displayMeta = characterImage
     ? `${characterImage.width}×${characterImage.height} px • ${formatBytes(characterImage.byteSize)}`
     : null;
@@ -573,11 +959,113 @@ const StickerCreator = ({
         <div className="style-controls">
           <label htmlFor="artisticStyle">{t('artisticStyleLabel')}</label>
           <select id="artisticStyle" value={artisticStyle} onChange={onArtisticStyleChange}>
-            <option value="Photo-realistic">{t('styleRealistic')}</option>
-            <option value="Anime">{t('styleAnime')}</option>
-            <option value="3D Render">{t('style3d')}</option>
+            {BUILT_IN_STYLES.map(style => (
+              <option key={style.id} value={style.id}>{getStyleDisplayName(style, language, t)}</option>
+            ))}
+            {customStyles.length > 0 && (
+              <optgroup label={t('customStylesGroup')}>
+                {customStyles.map(style => (
+                  <option key={style.id} value={style.id}>{getStyleDisplayName(style, language, t)}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          <button type="button" onClick={onManageStyles} className="manage-styles-button">{t('manageStylesButton')}</button>
+        </div>
+        <div className="style-controls style-reference-controls">
+          <span className="style-reference-label">{t('styleReferenceLabel')}</span>
+          {styleReference ? (
+            <div className="style-reference-preview">
+              <div className="checkerboard-bg">
+                <img src={styleReference.data} alt={t('styleReferenceAlt')} />
+              </div>
+              <span className="style-reference-meta">
+                {`${styleReference.width}×${styleReference.height} px • ${formatBytes(styleReference.byteSize)}`}
+              </span>
+              <button type="button" onClick={() => styleReferenceInputRef.current?.click()} className="manage-styles-button">
+                {t('styleReferenceChange')}
+              </button>
+              <button
+                type="button"
+                onClick={onStyleReferenceRemove}
+                className="style-library-icon-button"
+                title={t('styleReferenceRemove')}
+                aria-label={t('styleReferenceRemove')}
+              >
+                <BinIcon />
+              </button>
+            </div>
+          ) : (
+            <button type="button" onClick={() => styleReferenceInputRef.current?.click()} className="manage-styles-button">
+              <UploadIcon /> {t('styleReferenceAdd')}
+            </button>
+          )}
+          <input
+            ref={styleReferenceInputRef}
+            type="file"
+            accept="image/*"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onStyleReferenceSelect(file);
+            }}
+            style={{ display: 'none' }}
+          />
+        </div>
+        {styleReference && <p className="style-reference-hint">{t('styleReferenceHint')}</p>}
+        <div className="style-controls exclusion-controls">
+          <label htmlFor="packExclusions">{t('exclusionsLabel')}</label>
+          <input
+            type="text"
+            id="packExclusions"
+            value={exclusions}
+            onChange={onExclusionsChange}
+            placeholder={t('exclusionsPlaceholder')}
+          />
+        </div>
+        <div className="style-controls">
+          <label htmlFor="imageProvider">{t('imageProviderLabel')}</label>
+          <select id="imageProvider" ref={providerSelectRef} value={providerId} onChange={onProviderChange}>
+            {IMAGE_PROVIDER_IDS.map(id => (
+              <option key={id} value={id}>{t(`imageProvider_${id}`)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="style-controls">
+          <label htmlFor="generationConcurrency">{t('concurrencyLabel')}</label>
+          <select id="generationConcurrency" value={concurrency} onChange={onConcurrencyChange}>
+            {GENERATION_CONCURRENCY_OPTIONS.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+        <div className="style-controls">
+          <label htmlFor="variantsPerSticker">{t('variantsPerStickerLabel')}</label>
+          <select id="variantsPerSticker" value={variantsPerSticker} onChange={onVariantsPerStickerChange}>
+            {VARIANTS_PER_STICKER_OPTIONS.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+        <div className="style-controls">
+          <label htmlFor="exportFormat">{t('exportFormatLabel')}</label>
+          <select id="exportFormat" value={exportFormat} onChange={onExportFormatChange}>
+            {STICKER_ENCODE_FORMATS.map(format => (
+              <option key={format} value={format}>{t(`exportFormat_${format}`)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="style-controls">
+          <label htmlFor="exportBudget">{t('exportBudgetLabel')}</label>
+          <select id="exportBudget" value={exportBudgetKb} onChange={onExportBudgetChange}>
+            {EXPORT_BUDGET_OPTIONS_KB.map(option => (
+              <option key={option} value={option}>{option ? `${option} KB` : t('exportBudgetNone')}</option>
+            ))}
           </select>
         </div>
+        {(exportFormat !== DEFAULT_ENCODE_SETTINGS.format || exportBudgetKb > 0) && (
+          <p className="style-reference-hint">{t('exportEncodingHint')}</p>
+        )}
         <div className="background-controls">
             <input
                 type="checkbox"
@@ -595,6 +1083,15 @@ const StickerCreator = ({
                 aria-label="Background color picker"
             />
         </div>
+        <div className="background-controls developer-controls">
+            <input
+                type="checkbox"
+                id="developerMode"
+                checked={isDeveloperMode}
+                onChange={onDeveloperModeChange}
+            />
+            <label htmlFor="developerMode">{t('developerModeLabel')}</label>
+        </div>
         <div className="button-group">
             <button onClick={onRequestImage} className="upload-button">
                 <UploadIcon /> {characterImage ? t('changeImageButton') : t('chooseImageButton')}
@@ -623,19 +1120,91 @@ const EmojiPicker = ({ onSelect }: { onSelect: (emoji: string) => void }) => {
     );
 };
 
-const AddExpressionModal = ({ type, onAdd, onClose }: { type: ExpressionType; onAdd: (expression: {emoji: string, label: string}) => void; onClose: () => void }) => {
-    const { t } = useLanguage();
-    const [newEmoji, setNewEmoji] = useState(type === 'plain' ? '😀' : '');
-    const [newLabel, setNewLabel] = useState('');
+type ExpressionFormValues = {
+    emoji: string;
+    label: string;
+    labels: Partial<Record<Language, string>>;
+    type: ExpressionType;
+    exclusions?: string;
+    promptNotes?: ExpressionPromptNotes;
+    category?: string;
+    keepImage: boolean; // Edit mode only: false clears the generated image so it is made again
+};
+
+const AddExpressionModal = ({ type, category, categories, expression, hasImage = false, onAdd, onTranslate, onClose }: { type: ExpressionType; category?: string; categories: ExpressionCategory[]; expression?: Expression; hasImage?: boolean; onAdd: (values: ExpressionFormValues) => void; onTranslate: (text: string, from: Language, to: Language) => Promise<string>; onClose: () => void }) => {
+    const { t, language, translations } = useLanguage();
+    const otherLanguage: Language = language === 'sw' ? 'en' : 'sw';
+    const isEditing = Boolean(expression);
+    const [currentType, setCurrentType] = useState<ExpressionType>(expression?.type ?? type);
+    const [newEmoji, setNewEmoji] = useState(expression?.emoji ?? (type === 'plain' ? '😀' : ''));
+    const [newLabel, setNewLabel] = useState(expression ? getExpressionLabel(expression, language, t) : '');
+    const [otherLabel, setOtherLabel] = useState(() => {
+        if (!expression) return '';
+        return expression.isDefault
+            ? translations?.[otherLanguage]?.[expression.label] ?? ''
+            : expression.labels?.[otherLanguage] ?? '';
+    });
+    const [autoTranslate, setAutoTranslate] = useState(!isEditing);
+    const [isTranslating, setIsTranslating] = useState(false);
+    const [translationFailed, setTranslationFailed] = useState(false);
+    const [newExclusions, setNewExclusions] = useState(expression?.exclusions ?? '');
+    const [promptNotes, setPromptNotes] = useState<ExpressionPromptNotes>(expression?.promptNotes ?? {});
+    const [currentCategory, setCurrentCategory] = useState(expression ? expression.category ?? '' : category ?? '');
+    const [keepImage, setKeepImage] = useState(true);
+    // Built-in sections imply the type; user sections hold both kinds, so the type has to be chosen
+    const canChooseType = isEditing || Boolean(category);
     const [isPickerOpen, setPickerOpen] = useState(false);
     const pickerRef = useRef<HTMLDivElement>(null);
     const modalContentRef = useRef<HTMLDivElement>(null);
 
-    const handleAdd = (e: React.FormEvent) => {
+    const translateLabel = async (): Promise<string> => {
+      setIsTranslating(true);
+      try {
+        const translated = await onTranslate(newLabel.trim(), language, otherLanguage);
+        setOtherLabel(translated);
+        setTranslationFailed(false);
+        return translated;
+      } catch (err) {
+        // The expression still works with one language; the prompt falls back to the entered text.
+        console.warn('Could not translate expression label', err);
+        setTranslationFailed(true);
+        return '';
+      } finally {
+        setIsTranslating(false);
+      }
+    };
+
+    const updatePromptNote = (key: keyof ExpressionPromptNotes, value: string) =>
+        setPromptNotes(prev => ({ ...prev, [key]: value }));
+
+    const handleAdd = async (e: React.FormEvent) => {
       e.preventDefault();
-      if (newLabel && (type === 'expressive' || newEmoji)) {
-        onAdd({ emoji: newEmoji, label: newLabel });
+      const label = newLabel.trim();
+      if (!label || (currentType === 'plain' && !newEmoji) || isTranslating) {
+        return;
+      }
+      let translated = otherLabel.trim();
+      if (!translated && autoTranslate && !translationFailed) {
+        translated = await translateLabel();
+        if (!translated) {
+          return; // Stay open so the note is seen; submitting again keeps the single language
+        }
       }
+      const notes: ExpressionPromptNotes = {
+        pose: promptNotes.pose?.trim() || undefined,
+        props: promptNotes.props?.trim() || undefined,
+        framing: promptNotes.framing?.trim() || undefined,
+      };
+      onAdd({
+        emoji: newEmoji,
+        label,
+        labels: { [language]: label, ...(translated ? { [otherLanguage]: translated } : {}) },
+        type: currentType,
+        exclusions: newExclusions.trim() || undefined,
+        promptNotes: notes.pose || notes.props || notes.framing ? notes : undefined,
+        category: currentCategory || undefined,
+        keepImage,
+      });
     };
   
     const handleEmojiSelect = (emoji: string) => {
@@ -660,13 +1229,31 @@ const AddExpressionModal = ({ type, onAdd, onClose }: { type: ExpressionType; on
         document.removeEventListener('mousedown', handleClickOutside);
       };
     }, []);
+
+    const title = isEditing
+      ? t('editExpressionTitle')
+      : currentType === 'plain' ? t('addEmotionTitle') : t('addPhraseTitle');
   
     return (
       <div className="modal-backdrop" onClick={handleBackdropClick}>
         <div className="modal-content" ref={modalContentRef}>
-          <h3>{type === 'plain' ? t('addEmotionTitle') : t('addPhraseTitle')}</h3>
+          <h3>{title}</h3>
           <form onSubmit={handleAdd} className="add-expression-modal-form">
-            {type === 'plain' ? (
+            {canChooseType && (
+                <div className="form-row">
+                    <label htmlFor="expressionType">{t('expressionTypeLabel')}</label>
+                    <select
+                        id="expressionType"
+                        value={currentType}
+                        onChange={(e) => setCurrentType(e.target.value as ExpressionType)}
+                        className="label-input"
+                    >
+                        <option value="plain">{t('suggestionTypePlain')}</option>
+                        <option value="expressive">{t('suggestionTypeExpressive')}</option>
+                    </select>
+                </div>
+            )}
+            {currentType === 'plain' ? (
                 <div className="form-row">
                     <div className="emoji-input-wrapper" ref={pickerRef}>
                         <button type="button" onClick={() => setPickerOpen(!isPickerOpen)} className="emoji-input-btn">
@@ -704,9 +1291,95 @@ const AddExpressionModal = ({ type, onAdd, onClose }: { type: ExpressionType; on
                     />
                 </>
             )}
+            <div className="form-row">
+                <input
+                    type="text"
+                    value={otherLabel}
+                    onChange={(e) => setOtherLabel(e.target.value)}
+                    placeholder={t(`addExpressionLabelPlaceholder_${otherLanguage}`)}
+                    className="label-input"
+                    lang={otherLanguage}
+                />
+                <button
+                    type="button"
+                    onClick={() => void translateLabel()}
+                    className="modal-button secondary"
+                    disabled={!newLabel.trim() || isTranslating}
+                >
+                    {isTranslating ? t('translatingButton') : t('translateButton')}
+                </button>
+            </div>
+            {translationFailed && !otherLabel.trim() && (
+                <p className="translation-note" role="status">{t('translationUnavailable')}</p>
+            )}
+            <label className="auto-translate-toggle">
+                <input type="checkbox" checked={autoTranslate} onChange={(e) => setAutoTranslate(e.target.checked)} />
+                {t('autoTranslateLabel')}
+            </label>
+            <input
+                type="text"
+                value={newExclusions}
+                onChange={(e) => setNewExclusions(e.target.value)}
+                placeholder={t('expressionExclusionsPlaceholder')}
+                className="label-input"
+                aria-label={t('exclusionsLabel')}
+            />
+            {categories.length > 0 && (
+                <div className="form-row">
+                    <label htmlFor="expressionCategory">{t('expressionSectionLabel')}</label>
+                    <select
+                        id="expressionCategory"
+                        value={currentCategory}
+                        onChange={(e) => setCurrentCategory(e.target.value)}
+                        className="label-input"
+                    >
+                        <option value="">{t('sectionByType')}</option>
+                        {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                </div>
+            )}
+            <details className="prompt-notes" open={Boolean(expression?.promptNotes)}>
+                <summary>{t('promptNotesSummary')}</summary>
+                <input
+                    type="text"
+                    value={promptNotes.pose ?? ''}
+                    onChange={(e) => updatePromptNote('pose', e.target.value)}
+                    placeholder={t('promptNotePosePlaceholder')}
+                    className="label-input"
+                />
+                <input
+                    type="text"
+                    value={promptNotes.props ?? ''}
+                    onChange={(e) => updatePromptNote('props', e.target.value)}
+                    placeholder={t('promptNotePropsPlaceholder')}
+                    className="label-input"
+                />
+                <input
+                    type="text"
+                    value={promptNotes.framing ?? ''}
+                    onChange={(e) => updatePromptNote('framing', e.target.value)}
+                    placeholder={t('promptNoteFramingPlaceholder')}
+                    className="label-input"
+                />
+            </details>
+            {isEditing && hasImage && (
+                <fieldset className="keep-image-options">
+                    <legend>{t('editExpressionImageLegend')}</legend>
+                    <label>
+                        <input type="radio" name="keepImage" checked={keepImage} onChange={() => setKeepImage(true)} />
+                        {t('editExpressionKeepImage')}
+                    </label>
+                    <label>
+                        <input type="radio" name="keepImage" checked={!keepImage} onChange={() => setKeepImage(false)} />
+                        {t('editExpressionClearImage')}
+                    </label>
+                </fieldset>
+            )}
             <div className="modal-actions">
               <button type="button" onClick={onClose} className="modal-button secondary">{t('cancelButton')}</button>
-              <button type="submit" className="modal-button primary">{t('addButton')}</button>
+              <button type="submit" className="modal-button primary" disabled={isTranslating}>
+                {isEditing ? t('saveButton') : t('addButton')}
+              </button>
             </div>
           </form>
         </div>
@@ -714,175 +1387,215 @@ const AddExpressionModal = ({ type, onAdd, onClose }: { type: ExpressionType; on
     );
   };
 
-const TransparencyEditorModal = ({ sticker, onSave, onClose }: { sticker: Sticker; onSave: (label: string, newImageUrl: string) => void; onClose: () => void; }) => {
+const ExpressionSuggestionsModal = ({
+    onRequest,
+    isAdded,
+    onAdd,
+    onClose,
+}: {
+    onRequest: (alsoExclude: string[], signal: AbortSignal) => Promise<ExpressionSuggestion[]>;
+    isAdded: (label: string) => boolean;
+    onAdd: (suggestions: ExpressionSuggestion[]) => void;
+    onClose: () => void;
+}) => {
     const { t } = useLanguage();
-    const [seedPoints, setSeedPoints] = useState<TransparencySeed[]>([]);
-    const [previewUrl, setPreviewUrl] = useState(sticker.imageUrl);
-    const [isProcessing, setIsProcessing] = useState(false);
-    const [imageDims, setImageDims] = useState<{ width: number; height: number } | null>(null);
     const modalContentRef = useRef<HTMLDivElement>(null);
-    const imgRef = useRef<HTMLImageElement>(null);
-    const displayLabel = sticker.isDefault ? t(sticker.label) : sticker.label;
+    const controllerRef = useRef<AbortController | null>(null);
+    const [suggestions, setSuggestions] = useState<ExpressionSuggestion[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<StickerError | null>(null);
+
+    const requestMore = async (shown: ExpressionSuggestion[]) => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsLoading(true);
+        setError(null);
+        try {
+            const next = await onRequest(shown.map(s => s.label), controller.signal);
+            if (!controller.signal.aborted) {
+                setSuggestions([...shown, ...next]);
+            }
+        } catch (err) {
+            if (!controller.signal.aborted) {
+                console.error('Failed to suggest expressions', err);
+                setError(toStickerError(err));
+            }
+        } finally {
+            if (controllerRef.current === controller) {
+                setIsLoading(false);
+            }
+        }
+    };
 
     useEffect(() => {
-        setSeedPoints([]);
-        setPreviewUrl(sticker.imageUrl);
-        setImageDims(null);
-    }, [sticker.imageUrl, sticker.originalImageUrl, sticker.label]);
+        void requestMore([]);
+        return () => controllerRef.current?.abort();
+    }, []);
 
-    useEffect(() => {
-        if (!sticker.originalImageUrl) {
-            setIsProcessing(false);
-            return;
+    const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (modalContentRef.current && !modalContentRef.current.contains(e.target as Node)) {
+          onClose();
         }
-        let cancelled = false;
-        setIsProcessing(true);
-        const timer = window.setTimeout(() => {
-            makeBackgroundTransparent(sticker.originalImageUrl!, {
-                ...DEFAULT_TRANSPARENCY_OPTIONS,
-                seedPoints,
-                mode: seedPoints.length ? 'auto+seed' : 'auto',
-                maxDimension: MAX_STICKER_DIMENSION,
-            }).then(newUrl => {
-                if (!cancelled) {
-                    setPreviewUrl(newUrl);
-                    setIsProcessing(false);
-                }
-            }).catch(error => {
-                console.error('Error refining transparency:', error);
-                if (!cancelled) {
-                    setPreviewUrl(sticker.originalImageUrl!);
-                    setIsProcessing(false);
-                }
-            });
-        }, 150);
-
-        return () => {
-            cancelled = true;
-            clearTimeout(timer);
-        };
-    }, [seedPoints, sticker.originalImageUrl]);
-
-    const handleImageLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
-        const target = event.currentTarget;
-        setImageDims({
-            width: target.naturalWidth,
-            height: target.naturalHeight,
-        });
     };
 
-    const handlePreviewClick = (event: React.MouseEvent<HTMLDivElement>) => {
-        if (isProcessing || !imgRef.current || !sticker.originalImageUrl) {
-            return;
-        }
-        const imgRect = imgRef.current.getBoundingClientRect();
-        if (
-            event.clientX < imgRect.left ||
-            event.clientX > imgRect.right ||
-            event.clientY < imgRect.top ||
-            event.clientY > imgRect.bottom
-        ) {
-            return;
-        }
-        const relativeX = (event.clientX - imgRect.left) / imgRect.width;
-        const relativeY = (event.clientY - imgRect.top) / imgRect.height;
-        const x = relativeX * imgRef.current.naturalWidth;
-        const y = relativeY * imgRef.current.naturalHeight;
-        if (!Number.isFinite(x) || !Number.isFinite(y)) {
-            return;
-        }
-        setSeedPoints(prev => [...prev, { x, y, force: true }]);
-    };
+    const pending = suggestions.filter(s => !isAdded(s.label));
 
-    const handleUndo = () => {
-        setSeedPoints(prev => prev.slice(0, -1));
-    };
+    return (
+        <div className="modal-backdrop" onClick={handleBackdropClick}>
+            <div className="suggestions-modal" ref={modalContentRef}>
+                <h3>{t('suggestionsTitle')}</h3>
+                <p className="suggestions-subtitle">{t('suggestionsSubtitle')}</p>
+                {error && (
+                    <p className="suggestions-error">{`${t('suggestionsError')} ${t(GENERATION_ERROR_INFO[error.kind].messageKey)}`}</p>
+                )}
+                <ul className="suggestions-list">
+                    {suggestions.map(suggestion => {
+                        const added = isAdded(suggestion.label);
+                        return (
+                            <li key={suggestion.label} className={`suggestion-item ${added ? 'added' : ''}`}>
+                                <span className="suggestion-emoji" aria-hidden="true">{suggestion.emoji}</span>
+                                <span className="suggestion-label">{suggestion.label}</span>
+                                <span className="suggestion-type">
+                                    {suggestion.type === 'plain' ? t('suggestionTypePlain') : t('suggestionTypeExpressive')}
+                                </span>
+                                <button
+                                    type="button"
+                                    className="modal-button secondary"
+                                    onClick={() => onAdd([suggestion])}
+                                    disabled={added}
+                                >
+                                    {added ? t('suggestionAdded') : t('addButton')}
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+                {isLoading && <div className="spinner"></div>}
+                {!isLoading && !error && suggestions.length === 0 && (
+                    <p className="suggestions-subtitle">{t('suggestionsEmpty')}</p>
+                )}
+                <div className="modal-actions">
+                    <button type="button" onClick={onClose} className="modal-button secondary">{t('closeButton')}</button>
+                    <button type="button" onClick={() => void requestMore(suggestions)} className="modal-button secondary" disabled={isLoading}>
+                        {t('suggestionsMore')}
+                    </button>
+                    <button type="button" onClick={() => onAdd(pending)} className="modal-button primary" disabled={pending.length === 0}>
+                        {t('suggestionsAddAll', { count: String(pending.length) })}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
 
-    const handleResetSeeds = () => {
-        setSeedPoints([]);
-    };
+const ExpressionPacksModal = ({ onApply, onExport, onClose }: { onApply: (pack: ExpressionPack, mode: ExpressionPackImportMode) => { added: number; skipped: number } | null; onExport: (name: string) => void; onClose: () => void; }) => {
+    const { t, language } = useLanguage();
+    const modalContentRef = useRef<HTMLDivElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [mode, setMode] = useState<ExpressionPackImportMode>('merge');
+    const [exportName, setExportName] = useState('');
+    const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
 
-    const handleSave = () => {
-        if (previewUrl) {
-            onSave(sticker.label, previewUrl);
-        }
-    };
-    
     const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
         if (modalContentRef.current && !modalContentRef.current.contains(e.target as Node)) {
           onClose();
         }
     };
 
-    const seedStatus = seedPoints.length
-        ? t('transparencySeedCount', { count: seedPoints.length.toString() })
-        : t('transparencySeedNone');
+    const applyPack = (pack: ExpressionPack) => {
+        const result = onApply(pack, mode);
+        if (result) {
+            setStatus({
+                message: t('packApplied', { name: getPackText(pack.name, language), added: String(result.added), skipped: String(result.skipped) }),
+                isError: false,
+            });
+        }
+    };
+
+    const handleImportFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            applyPack(parseExpressionPack(await file.text(), file.name.replace(/\.json$/i, '')));
+        } catch (err) {
+            console.error('Failed to import expression pack', err);
+            setStatus({ message: t('packImportInvalid'), isError: true });
+        }
+    };
+
+    const handleExport = (e: React.FormEvent) => {
+        e.preventDefault();
+        onExport(exportName.trim() || t('packDefaultName'));
+    };
 
     return (
         <div className="modal-backdrop" onClick={handleBackdropClick}>
-            <div className="transparency-editor-modal" ref={modalContentRef}>
-                <h3>{t('transparencyTitle')}</h3>
-                <div className="editor-content">
-                    <div className="editor-preview">
-                        <div className="checkerboard-bg pick-mode" onClick={handlePreviewClick}>
-                            {isProcessing && <div className="preview-spinner-overlay"><div className="spinner"></div></div>}
-                            {previewUrl && (
-                                <>
-                                    <img
-                                        ref={imgRef}
-                                        src={previewUrl}
-                                        alt={`${displayLabel} preview`}
-                                        onLoad={handleImageLoad}
-                                    />
-                                    {imageDims && seedPoints.map((seed, index) => (
-                                        <span
-                                            key={`${seed.x}-${seed.y}-${index}`}
-                                            className="seed-marker"
-                                            style={{
-                                                left: `${(seed.x / imageDims.width) * 100}%`,
-                                                top: `${(seed.y / imageDims.height) * 100}%`,
-                                            }}
-                                        />
-                                    ))}
-                                </>
-                            )}
-                        </div>
-                    </div>
-                    <div className="editor-controls">
-                        <p className="picker-description">{t('transparencyPickerInstructions')}</p>
-                        <p className="picker-status">{seedStatus}</p>
-                        <div className="picker-actions">
-                            <button type="button" className="picker-button" onClick={handleUndo} disabled={!seedPoints.length}>
-                                {t('transparencyUndo')}
-                            </button>
-                            <button type="button" className="picker-button" onClick={handleResetSeeds} disabled={!seedPoints.length}>
-                                {t('transparencyReset')}
+            <div className="expression-packs-modal" ref={modalContentRef}>
+                <h3>{t('packsTitle')}</h3>
+                <p className="suggestions-subtitle">{t('packsSubtitle')}</p>
+                <fieldset className="pack-mode-options">
+                    <legend>{t('packModeLegend')}</legend>
+                    <label>
+                        <input type="radio" name="packMode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                        {t('packModeMerge')}
+                    </label>
+                    <label>
+                        <input type="radio" name="packMode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                        {t('packModeReplace')}
+                    </label>
+                </fieldset>
+                <ul className="pack-list">
+                    {STARTER_EXPRESSION_PACKS.map(pack => (
+                        <li key={pack.id} className="pack-item">
+                            <div className="pack-info">
+                                <span className="pack-name">{getPackText(pack.name, language)}</span>
+                                {pack.description && <span className="pack-description">{getPackText(pack.description, language)}</span>}
+                                <span className="pack-preview" aria-hidden="true">{pack.expressions.map(entry => entry.emoji).join(' ')}</span>
+                            </div>
+                            <button type="button" className="modal-button secondary" onClick={() => applyPack(pack)}>
+                                {t('packUseButton', { count: String(pack.expressions.length) })}
                             </button>
-                        </div>
-                        <p className="picker-hint">{t('transparencyPickerHint')}</p>
-                    </div>
-                </div>
+                        </li>
+                    ))}
+                </ul>
+                {status && <p className={status.isError ? 'style-library-error' : 'pack-status'}>{status.message}</p>}
+                <form className="pack-export-form" onSubmit={handleExport}>
+                    <input
+                        type="text"
+                        value={exportName}
+                        onChange={(e) => setExportName(e.target.value)}
+                        placeholder={t('packExportNamePlaceholder')}
+                        className="label-input"
+                    />
+                    <button type="submit" className="modal-button secondary">{t('packExportButton')}</button>
+                </form>
                 <div className="modal-actions">
-                    <button onClick={onClose} className="modal-button secondary">{t('cancelButton')}</button>
-                    <button onClick={handleSave} className="modal-button primary" disabled={isProcessing}>{t('saveChangesButton')}</button>
+                    <button type="button" onClick={() => importInputRef.current?.click()} className="modal-button secondary">{t('packImportButton')}</button>
+                    <button type="button" onClick={onClose} className="modal-button primary">{t('closeButton')}</button>
                 </div>
+                <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} style={{ display: 'none' }} />
             </div>
         </div>
     );
 };
 
-const RegenerationModal = ({ sticker, onRegenerate, onClose }: { sticker: Sticker; onRegenerate: (label: string, feedback: string) => void; onClose: () => void; }) => {
+const ShareListModal = ({ onCreateLink, onClose }: { onCreateLink: () => Promise<string>; onClose: () => void; }) => {
     const { t } = useLanguage();
-    const [feedback, setFeedback] = useState('');
     const modalContentRef = useRef<HTMLDivElement>(null);
-    const displayLabel = sticker.isDefault ? t(sticker.label) : sticker.label;
+    const [link, setLink] = useState<string | null>(null);
+    const [hasFailed, setHasFailed] = useState(false);
+    const [isCopied, setIsCopied] = useState(false);
 
-    const handleRegenerate = (e: React.FormEvent) => {
-        e.preventDefault();
-        if (feedback.trim()) {
-            onRegenerate(sticker.label, feedback.trim());
-        }
-    };
+    useEffect(() => {
+        onCreateLink()
+            .then(setLink)
+            .catch(err => {
+                console.error('Failed to create share link', err);
+                setHasFailed(true);
+            });
+    }, []);
 
     const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
         if (modalContentRef.current && !modalContentRef.current.contains(e.target as Node)) {
@@ -890,169 +1603,133 @@ const RegenerationModal = ({ sticker, onRegenerate, onClose }: { sticker: Sticke
         }
     };
 
+    const handleCopy = async () => {
+        if (!link) return;
+        try {
+            await navigator.clipboard.writeText(link);
+            setIsCopied(true);
+        } catch (err) {
+            // Clipboard access can be denied; the link stays selectable in the field
+            console.warn('Could not copy share link', err);
+        }
+    };
+
     return (
         <div className="modal-backdrop" onClick={handleBackdropClick}>
             <div className="modal-content" ref={modalContentRef}>
-                <h3>{t('regenerateTitle')}</h3>
-                <form onSubmit={handleRegenerate} className="regeneration-modal-form">
-                    <div className="regeneration-preview">
-                        <img src={sticker.imageUrl!} alt={displayLabel} />
-                        <p>{displayLabel}</p>
-                    </div>
-                    <div className="regeneration-input">
-                        <label htmlFor="feedback-input">{t('regeneratePrompt')}</label>
-                        <textarea
-                            id="feedback-input"
-                            value={feedback}
-                            onChange={(e) => setFeedback(e.target.value)}
-                            placeholder={t('regeneratePlaceholder')}
-                            rows={4}
-                            required
-                            autoFocus
-                        />
-                    </div>
-                    <div className="modal-actions">
-                        <button type="button" onClick={onClose} className="modal-button secondary">{t('cancelButton')}</button>
-                        <button type="submit" className="modal-button primary" disabled={!feedback.trim()}>{t('regenerateButton')}</button>
-                    </div>
-                </form>
+                <h3>{t('shareListTitle')}</h3>
+                <p className="suggestions-subtitle">{t('shareListSubtitle')}</p>
+                {hasFailed ? (
+                    <p className="style-library-error">{t('shareListFailed')}</p>
+                ) : link ? (
+                    <input
+                        type="text"
+                        value={link}
+                        readOnly
+                        className="share-link-input"
+                        onFocus={(e) => e.target.select()}
+                        aria-label={t('shareListTitle')}
+                    />
+                ) : (
+                    <div className="spinner"></div>
+                )}
+                <div className="modal-actions">
+                    <button type="button" onClick={onClose} className="modal-button secondary">{t('closeButton')}</button>
+                    <button type="button" onClick={() => void handleCopy()} className="modal-button primary" disabled={!link}>
+                        {isCopied ? t('shareListCopied') : t('shareListCopyButton')}
+                    </button>
+                </div>
             </div>
         </div>
     );
 };
 
-const CameraModal = ({ onPictureTaken, onClose }: { onPictureTaken: (imageDataUrl: string) => void; onClose: () => void; }) => {
-    const { t } = useLanguage();
-    const videoRef = useRef<HTMLVideoElement>(null);
-    const canvasRef = useRef<HTMLCanvasElement>(null);
-    const streamRef = useRef<MediaStream | null>(null);
-
-    const [capturedImage, setCapturedImage] = useState<string | null>(null);
-    const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
-    const [error, setError] = useState<string | null>(null);
-
-    const stopStream = useCallback(() => {
-        if (streamRef.current) {
-            streamRef.current.getTracks().forEach(track => track.stop());
-            streamRef.current = null;
-        }
-    }, []);
-    
-    const startStream = useCallback(async () => {
-        stopStream();
-        setCapturedImage(null);
-        setError(null);
-        try {
-            const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode } });
-            streamRef.current = stream;
-            if (videoRef.current) {
-                videoRef.current.srcObject = stream;
-            }
-        } catch (err) {
-            console.error("Error accessing camera:", err);
-            setError(t('errorCamera'));
-        }
-    }, [facingMode, stopStream, t]);
-
-    useEffect(() => {
-        startStream();
-        return stopStream;
-    }, [startStream, stopStream]);
+const SharedListModal = ({ pack, onLoad, onClose }: { pack: ExpressionPack; onLoad: (mode: ExpressionPackImportMode) => void; onClose: () => void; }) => {
+    const { t, language } = useLanguage();
+    const modalContentRef = useRef<HTMLDivElement>(null);
 
-    const handleTakePicture = () => {
-        if (videoRef.current && canvasRef.current) {
-            const video = videoRef.current;
-            const canvas = canvasRef.current;
-            canvas.width = video.videoWidth;
-            canvas.height = video.videoHeight;
-            const context = canvas.getContext('2d');
-            if (context) {
-                if (facingMode === 'user') {
-                    context.translate(canvas.width, 0);
-                    context.scale(-1, 1);
-                }
-                context.drawImage(video, 0, 0, canvas.width, canvas.height);
-                const dataUrl = canvas.toDataURL('image/png');
-                setCapturedImage(dataUrl);
-                stopStream();
-            }
+    const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (modalContentRef.current && !modalContentRef.current.contains(e.target as Node)) {
+          onClose();
         }
     };
 
-    const handleSwitchCamera = () => {
-        setFacingMode(prev => (prev === 'user' ? 'environment' : 'user'));
-    };
+    return (
+        <div className="modal-backdrop" onClick={handleBackdropClick}>
+            <div className="suggestions-modal" ref={modalContentRef}>
+                <h3>{t('sharedListTitle')}</h3>
+                <p className="suggestions-subtitle">{t('sharedListSubtitle', { count: String(pack.expressions.length) })}</p>
+                <ul className="suggestions-list">
+                    {pack.expressions.map((entry, index) => (
+                        <li key={index} className="suggestion-item">
+                            <span className="suggestion-emoji" aria-hidden="true">{entry.emoji}</span>
+                            <span className="suggestion-label">{getPackText(entry.labels, language)}</span>
+                            <span className="suggestion-type">
+                                {entry.type === 'plain' ? t('suggestionTypePlain') : t('suggestionTypeExpressive')}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+                <div className="modal-actions">
+                    <button type="button" onClick={onClose} className="modal-button secondary">{t('sharedListDismiss')}</button>
+                    <button type="button" onClick={() => onLoad('replace')} className="modal-button secondary">{t('packModeReplace')}</button>
+                    <button type="button" onClick={() => onLoad('merge')} className="modal-button primary">{t('packModeMerge')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
 
-    const handleRetake = () => {
-        startStream();
-    };
+const ImportImageModal = ({ files, targetLabel, onImport, onClose }: { files: File[]; targetLabel: string | null; onImport: (removeBackground: boolean) => void; onClose: () => void; }) => {
+    const { t } = useLanguage();
+    const modalContentRef = useRef<HTMLDivElement>(null);
+    // JPEGs cannot carry transparency, so their background is most likely unwanted
+    const [removeBackground, setRemoveBackground] = useState(() => files.some(file => file.type === 'image/jpeg'));
+    const previews = useMemo(() => files.map(file => URL.createObjectURL(file)), [files]);
+
+    useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
 
-    const handleUsePicture = () => {
-        if (capturedImage) {
-            onPictureTaken(capturedImage);
-        }
-    };
-    
     const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
-        if (e.target === e.currentTarget) {
-            onClose();
+        if (modalContentRef.current && !modalContentRef.current.contains(e.target as Node)) {
+          onClose();
         }
     };
 
     return (
         <div className="modal-backdrop" onClick={handleBackdropClick}>
-            <div className="camera-modal">
-                <div className="camera-modal-header">
-                    <h3>{t('cameraModalTitle')}</h3>
-                </div>
-                <div className="camera-feed-container">
-                    {error && <p className="error-message">{error}</p>}
-                    {!error && (
-                        <>
-                            {capturedImage ? (
-                                <img src={capturedImage} alt="Captured preview" className="camera-preview" />
-                            ) : (
-                                <>
-                                    <video ref={videoRef} autoPlay playsInline className={`camera-feed ${facingMode === 'user' ? 'mirrored' : ''}`}></video>
-                                    <div className="camera-overlay">
-                                        <svg viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet">
-                                            <defs>
-                                                <mask id="selfieMask">
-                                                    <rect width="100" height="100" fill="white" />
-                                                    <ellipse cx="50" cy="50" rx="35" ry="45" fill="black" />
-                                                </mask>
-                                            </defs>
-                                            <rect width="100" height="100" fill="rgba(0,0,0,0.5)" mask="url(#selfieMask)" />
-                                        </svg>
-                                    </div>
-                                </>
-                            )}
-                        </>
-                    )}
-                     <canvas ref={canvasRef} style={{ display: 'none' }}></canvas>
+            <div className="suggestions-modal import-image-modal" ref={modalContentRef}>
+                <h3>{t('importImageTitle')}</h3>
+                <p className="suggestions-subtitle">
+                    {targetLabel
+                        ? t('importImageReplaceSubtitle', { label: targetLabel })
+                        : t('importImageNewSubtitle', { count: String(files.length) })}
+                </p>
+                <div className="import-image-previews">
+                    {previews.map((url, index) => (
+                        <img key={url} src={url} alt={files[index].name} title={files[index].name} />
+                    ))}
                 </div>
-                <div className="camera-controls">
-                    {capturedImage ? (
-                        <>
-                            <button onClick={handleRetake} className="modal-button secondary">{t('retakeButton')}</button>
-                            <button onClick={handleUsePicture} className="modal-button primary">{t('usePictureButton')}</button>
-                        </>
-                    ) : (
-                        <>
-                            <button onClick={onClose} className="modal-button secondary">{t('cancelButton')}</button>
-                            <button onClick={handleTakePicture} className="capture-btn" title={t('takePictureButton')}></button>
-                            <button onClick={handleSwitchCamera} className="switch-camera-btn" title={t('switchCameraButton')}><CameraSwitchIcon /></button>
-                        </>
-                    )}
+                <label className="import-image-option">
+                    <input type="checkbox" checked={removeBackground} onChange={(e) => setRemoveBackground(e.target.checked)} />
+                    {t('importImageRemoveBackground')}
+                </label>
+                <div className="modal-actions">
+                    <button type="button" onClick={onClose} className="modal-button secondary">{t('cancelButton')}</button>
+                    <button type="button" onClick={() => onImport(removeBackground)} className="modal-button primary">{t('importImageConfirm')}</button>
                 </div>
             </div>
         </div>
     );
 };
 
-const ImageSourceModal = ({ onSelectFile, onSelectCamera, onClose }: { onSelectFile: () => void; onSelectCamera: () => void; onClose: () => void; }) => {
-    const { t } = useLanguage();
+const PackZipImportModal = ({ fileName, matches, stickers, onImport, onClose }: { fileName: string; matches: PackZipMatch[]; stickers: Sticker[]; onImport: () => void; onClose: () => void; }) => {
+    const { t, language } = useLanguage();
     const modalContentRef = useRef<HTMLDivElement>(null);
+    const previews = useMemo(() => matches.map(match => URL.createObjectURL(match.image)), [matches]);
+    const matchedCount = matches.filter(match => match.expressionId).length;
+
+    useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
     const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
         if (modalContentRef.current && !modalContentRef.current.contains(e.target as Node)) {
           onClose();
@@ -1061,72 +1738,1217 @@ const ImageSourceModal = ({ onSelectFile, onSelectCamera, onClose }: { onSelectF
 
     return (
         <div className="modal-backdrop" onClick={handleBackdropClick}>
-            <div className="modal-content" ref={modalContentRef}>
-                <h3>{t('chooseSourceTitle')}</h3>
-                <div className="source-modal-actions">
-                    <button onClick={onSelectFile} className="source-button">
-                        <UploadIcon />
-                        <span>{t('sourceLibrary')}</span>
-                    </button>
-                    <button onClick={onSelectCamera} className="source-button">
-                        <CameraIcon />
-                        <span>{t('sourceCamera')}</span>
-                    </button>
-                </div>
+            <div className="suggestions-modal" ref={modalContentRef}>
+                <h3>{t('packZipTitle')}</h3>
+                <p className="suggestions-subtitle">
+                    {t('packZipSubtitle', { file: fileName, matched: String(matchedCount), added: String(matches.length - matchedCount) })}
+                </p>
+                <ul className="suggestions-list">
+                    {matches.map((match, index) => {
+                        const target = stickers.find(s => s.id === match.expressionId);
+                        return (
+                            <li key={match.file} className="suggestion-item">
+                                <img src={previews[index]} alt="" className="pack-zip-thumb" />
+                                <span className="suggestion-emoji" aria-hidden="true">{target?.emoji ?? match.entry.emoji}</span>
+                                <span className="suggestion-label">
+                                    {target ? getExpressionLabel(target, language, t) : getPackText(match.entry.labels, language) || t('importedStickerLabel')}
+                                </span>
+                                <span className="suggestion-type">{target ? t('packZipMatched') : t('packZipNew')}</span>
+                            </li>
+                        );
+                    })}
+                </ul>
                 <div className="modal-actions">
-                    <button onClick={onClose} className="modal-button secondary">{t('cancelButton')}</button>
+                    <button type="button" onClick={onClose} className="modal-button secondary">{t('cancelButton')}</button>
+                    <button type="button" onClick={onImport} className="modal-button primary">
+                        {t('packZipConfirm', { count: String(matches.length) })}
+                    </button>
                 </div>
             </div>
         </div>
     );
 };
 
-const StickerItem: React.FC<{ sticker: Sticker, originalFilename: string | null, onRemove: (label: string) => void; onEdit: (sticker: Sticker) => void; onRegenerate: (sticker: Sticker) => void; }> = ({ sticker, originalFilename, onRemove, onEdit, onRegenerate }) => {
+const ExportPackModal = ({ stickerCount, defaultName, onExport, onClose }: { stickerCount: number; defaultName: string; onExport: (platform: StickerExportPlatform, info: StickerPackInfo) => Promise<StickerExportResult>; onClose: () => void; }) => {
     const { t } = useLanguage();
-    const displayLabel = sticker.isDefault ? t(sticker.label) : sticker.label;
+    const modalContentRef = useRef<HTMLDivElement>(null);
+    const [platform, setPlatform] = useState<StickerExportPlatform>('whatsapp');
+    const [name, setName] = useState(defaultName);
+    const [publisher, setPublisher] = useState(() => localStorage.getItem(PACK_PUBLISHER_STORAGE_KEY) ?? '');
+    const [isExporting, setIsExporting] = useState(false);
+    const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+    const exporter = getStickerExporter(platform);
+    const platformName = t(`exportPlatform_${platform}`);
+    const packSizes = getPackSizes(platform, stickerCount);
+    const hasEnough = stickerCount >= exporter.minStickers;
 
-    const handleDownload = () => {
-        if (sticker.imageUrl) {
-          const prefix = originalFilename ? originalFilename.split('.').slice(0, -1).join('.') : 'sticker';
-          const stickerName = displayLabel.replace(/\s+/g, '_');
-          downloadImage(sticker.imageUrl, `${prefix}_${stickerName}.png`);
+    const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (!isExporting && modalContentRef.current && !modalContentRef.current.contains(e.target as Node)) {
+          onClose();
         }
     };
-    
-    const canInteract = sticker.status !== 'loading';
 
-    const renderContent = () => {
-        switch (sticker.status) {
-            case 'loading':
-                return <div className="spinner"></div>;
-            case 'done':
-                return <img src={sticker.imageUrl!} alt={displayLabel} className="sticker-image" />;
-            case 'error':
-                return (
-                    <div className="sticker-error-content">
-                        <span className="sticker-emoji" role="img" aria-label={t('stickerError')}>⚠️</span>
-                        {sticker.errorMessage && <span className="sticker-error-message">{sticker.errorMessage}</span>}
-                    </div>
-                );
-            case 'idle':
-            default:
-                if (sticker.type === 'expressive') {
-                    return (
-                        <>
-                            <span className="sticker-emoji-bg" aria-hidden="true">{sticker.emoji}</span>
-                            <span className="sticker-text-fg">{displayLabel}</span>
-                        </>
-                    );
-                }
-                return <span className="sticker-emoji" role="img" aria-label={displayLabel}>{sticker.emoji}</span>;
-        }
-    };
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsExporting(true);
+        setStatus(null);
+        try {
+            const result = await onExport(platform, {
+                name: name.trim().slice(0, exporter.nameMaxLength),
+                publisher: publisher.trim(),
+            });
+            setStatus({
+                message: result.oversized
+                    ? t('exportPackOversized', { count: String(result.oversized), limit: formatBytes(result.maxBytes) })
+                    : t('exportPackDone', { count: String(result.packCount) }),
+                isError: result.oversized > 0,
+            });
+        } catch (err) {
+            console.error(`Failed to export ${platform} pack`, err);
+            const isUnsupported = err instanceof StickerExportError && err.reason === 'webpUnsupported';
+            setStatus({ message: isUnsupported ? t('exportWebpUnsupported') : t('exportPackFailed'), isError: true });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="modal-backdrop" onClick={handleBackdropClick}>
+            <div className="suggestions-modal" ref={modalContentRef}>
+                <h3>{t('exportPackTitle')}</h3>
+                <div className="export-platforms" role="radiogroup" aria-label={t('exportPlatformLabel')}>
+                    {STICKER_EXPORT_PLATFORMS.map(id => (
+                        <button
+                            key={id}
+                            type="button"
+                            role="radio"
+                            aria-checked={platform === id}
+                            className={`export-platform-option ${id}${platform === id ? ' active' : ''}`}
+                            onClick={() => {
+                                setPlatform(id);
+                                setStatus(null);
+                            }}
+                            disabled={isExporting}
+                        >
+                            {t(`exportPlatform_${id}`)}
+                        </button>
+                    ))}
+                </div>
+                <p className="suggestions-subtitle">
+                    {!hasEnough
+                        ? t('exportPackTooFew', { platform: platformName, min: String(exporter.minStickers), count: String(stickerCount) })
+                        : packSizes.length > 1
+                            ? t('exportPackSplitInfo', {
+                                platform: platformName,
+                                max: String(exporter.maxStickersPerPack),
+                                count: String(stickerCount),
+                                packs: String(packSizes.length),
+                                sizes: packSizes.join(' + '),
+                            })
+                            : t('exportPackSingleInfo', { count: String(stickerCount) })}
+                </p>
+                <form className="export-pack-form" onSubmit={handleSubmit}>
+                    <label>
+                        {t('packNameLabel')}
+                        <input type="text" value={name} onChange={(e) => setName(e.target.value)} maxLength={exporter.nameMaxLength} required />
+                    </label>
+                    {exporter.needsPublisher && (
+                        <label>
+                            {t('packPublisherLabel')}
+                            <input type="text" value={publisher} onChange={(e) => setPublisher(e.target.value)} maxLength={exporter.nameMaxLength} required />
+                        </label>
+                    )}
+                    <p className="export-pack-hint">{t(`exportHint_${platform}`)}</p>
+                    {status && <p className={status.isError ? 'export-pack-status error' : 'export-pack-status'}>{status.message}</p>}
+                    <div className="modal-actions">
+                        <button type="button" onClick={onClose} className="modal-button secondary" disabled={isExporting}>{t('closeButton')}</button>
+                        <button
+                            type="submit"
+                            className="modal-button primary"
+                            disabled={!hasEnough || isExporting || !name.trim() || (exporter.needsPublisher && !publisher.trim())}
+                        >
+                            {isExporting ? t('packExporting') : t('exportPackButton')}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const TransparencyEditorModal = ({ sticker, onSave, onClose }: { sticker: Sticker; onSave: (id: string, newImageUrl: string, options: TransparencyOptions) => void; onClose: () => void; }) => {
+    const { t, language } = useLanguage();
+    const [seedPoints, setSeedPoints] = useState<TransparencySeed[]>([]);
+    const [previewUrl, setPreviewUrl] = useState(sticker.imageUrl);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [imageDims, setImageDims] = useState<{ width: number; height: number } | null>(null);
+    const modalContentRef = useRef<HTMLDivElement>(null);
+    const imgRef = useRef<HTMLImageElement>(null);
+    const displayLabel = getExpressionLabel(sticker, language, t);
+
+    useEffect(() => {
+        setSeedPoints([]);
+        setPreviewUrl(sticker.imageUrl);
+        setImageDims(null);
+    }, [sticker.imageUrl, sticker.originalImageUrl, sticker.id]);
+
+    useEffect(() => {
+        if (!sticker.originalImageUrl) {
+            setIsProcessing(false);
+            return;
+        }
+        let cancelled = false;
+        setIsProcessing(true);
+        const timer = window.setTimeout(() => {
+            makeBackgroundTransparent(sticker.originalImageUrl!, {
+                ...DEFAULT_TRANSPARENCY_OPTIONS,
+                seedPoints,
+                mode: seedPoints.length ? 'auto+seed' : 'auto',
+                maxDimension: MAX_STICKER_DIMENSION,
+            }).then(newUrl => {
+                if (!cancelled) {
+                    setPreviewUrl(newUrl);
+                    setIsProcessing(false);
+                }
+            }).catch(error => {
+                console.error('Error refining transparency:', error);
+                if (!cancelled) {
+                    setPreviewUrl(sticker.originalImageUrl!);
+                    setIsProcessing(false);
+                }
+            });
+        }, 150);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [seedPoints, sticker.originalImageUrl]);
+
+    const handleImageLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
+        const target = event.currentTarget;
+        setImageDims({
+            width: target.naturalWidth,
+            height: target.naturalHeight,
+        });
+    };
+
+    const handlePreviewClick = (event: React.MouseEvent<HTMLDivElement>) => {
+        if (isProcessing || !imgRef.current || !sticker.originalImageUrl) {
+            return;
+        }
+        const imgRect = imgRef.current.getBoundingClientRect();
+        if (
+            event.clientX < imgRect.left ||
+            event.clientX > imgRect.right ||
+            event.clientY < imgRect.top ||
+            event.clientY > imgRect.bottom
+        ) {
+            return;
+        }
+        const relativeX = (event.clientX - imgRect.left) / imgRect.width;
+        const relativeY = (event.clientY - imgRect.top) / imgRect.height;
+        const x = relativeX * imgRef.current.naturalWidth;
+        const y = relativeY * imgRef.current.naturalHeight;
+        if (!Number.isFinite(x) || !Number.isFinite(y)) {
+            return;
+        }
+        setSeedPoints(prev => [...prev, { x, y, force: true }]);
+    };
+
+    const handleUndo = () => {
+        setSeedPoints(prev => prev.slice(0, -1));
+    };
+
+    const handleResetSeeds = () => {
+        setSeedPoints([]);
+    };
+
+    const handleSave = () => {
+        if (previewUrl) {
+            onSave(sticker.id, previewUrl, {
+                ...DEFAULT_TRANSPARENCY_OPTIONS,
+                seedPoints,
+                mode: seedPoints.length ? 'auto+seed' : 'auto',
+                maxDimension: MAX_STICKER_DIMENSION,
+            });
+        }
+    };
+    
+    const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (modalContentRef.current && !modalContentRef.current.contains(e.target as Node)) {
+          onClose();
+        }
+    };
+
+    const seedStatus = seedPoints.length
+        ? t('transparencySeedCount', { count: seedPoints.length.toString() })
+        : t('transparencySeedNone');
+
+    return (
+        <div className="modal-backdrop" onClick={handleBackdropClick}>
+            <div className="transparency-editor-modal" ref={modalContentRef}>
+                <h3>{t('transparencyTitle')}</h3>
+                <div className="editor-content">
+                    <div className="editor-preview">
+                        <div className="checkerboard-bg pick-mode" onClick={handlePreviewClick}>
+                            {isProcessing && <div className="preview-spinner-overlay"><div className="spinner"></div></div>}
+                            {previewUrl && (
+                                <>
+                                    <img
+                                        ref={imgRef}
+                                        src={previewUrl}
+                                        alt={`${displayLabel} preview`}
+                                        onLoad={handleImageLoad}
+                                    />
+                                    {imageDims && seedPoints.map((seed, index) => (
+                                        <span
+                                            key={`${seed.x}-${seed.y}-${index}`}
+                                            className="seed-marker"
+                                            style={{
+                                                left: `${(seed.x / imageDims.width) * 100}%`,
+                                                top: `${(seed.y / imageDims.height) * 100}%`,
+                                            }}
+                                        />
+                                    ))}
+                                </>
+                            )}
+                        </div>
+                    </div>
+                    <div className="editor-controls">
+                        <p className="picker-description">{t('transparencyPickerInstructions')}</p>
+                        <p className="picker-status">{seedStatus}</p>
+                        <div className="picker-actions">
+                            <button type="button" className="picker-button" onClick={handleUndo} disabled={!seedPoints.length}>
+                                {t('transparencyUndo')}
+                            </button>
+                            <button type="button" className="picker-button" onClick={handleResetSeeds} disabled={!seedPoints.length}>
+                                {t('transparencyReset')}
+                            </button>
+                        </div>
+                        <p className="picker-hint">{t('transparencyPickerHint')}</p>
+                    </div>
+                </div>
+                <div className="modal-actions">
+                    <button onClick={onClose} className="modal-button secondary">{t('cancelButton')}</button>
+                    <button onClick={handleSave} className="modal-button primary" disabled={isProcessing}>{t('saveChangesButton')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const REFINEMENT_QUICK_FIXES = [
+    'refineChipBiggerFace',
+    'refineChipRemoveProps',
+    'refineChipBrighterColours',
+    'refineChipCleanerOutline',
+    'refineChipStrongerExpression',
+];
+
+const RefinementModal = ({ sticker, onSend, onClose }: { sticker: Sticker; onSend: (id: string, feedback: string, parentTurnId: string | null) => void; onClose: () => void; }) => {
+    const { t, language } = useLanguage();
+    const [feedback, setFeedback] = useState('');
+    const turns = sticker.refinements;
+    const [headId, setHeadId] = useState<string | null>(() => turns[turns.length - 1]?.id ?? null);
+    const modalContentRef = useRef<HTMLDivElement>(null);
+    const threadEndRef = useRef<HTMLDivElement>(null);
+    const displayLabel = getExpressionLabel(sticker, language, t);
+    const isBusy = sticker.status === 'queued' || sticker.status === 'running' || sticker.status === 'retrying';
+
+    // Follow the newest turn as soon as it is sent.
+    const turnCount = turns.length;
+    useEffect(() => {
+        if (turnCount > 0) {
+            setHeadId(turns[turnCount - 1].id);
+        }
+        threadEndRef.current?.scrollIntoView({ block: 'end' });
+    }, [turnCount]);
+
+    const getVersionImage = (versionId: string | null) =>
+        sticker.versions.find(v => v.id === versionId)?.imageUrl ?? null;
+    const getTurnNumber = (turnId: string | null) => turns.findIndex(turn => turn.id === turnId) + 1;
+
+    const startImage = getVersionImage(turns[0]?.baseVersionId ?? sticker.currentVersionId) ?? sticker.imageUrl;
+    const headTurn = turns.find(turn => turn.id === headId) ?? null;
+
+    const handleSend = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (feedback.trim() && !isBusy) {
+            onSend(sticker.id, feedback.trim(), headTurn?.id ?? null);
+            setFeedback('');
+        }
+    };
+
+    const handleChip = (key: string) => {
+        const chipText = t(key);
+        setFeedback(prev => (prev.trim() ? `${prev.trim()}, ${chipText}` : chipText));
+    };
+
+    const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (modalContentRef.current && !modalContentRef.current.contains(e.target as Node)) {
+          onClose();
+        }
+    };
+
+    return (
+        <div className="modal-backdrop" onClick={handleBackdropClick}>
+            <div className="refinement-modal" ref={modalContentRef}>
+                <h3>{t('regenerateTitle')}: {displayLabel}</h3>
+                <div className="refinement-thread">
+                    <div className={`refinement-bubble result ${headId === null ? 'is-head' : ''}`}>
+                        {startImage && <img src={startImage} alt={displayLabel} />}
+                        <div className="refinement-bubble-footer">
+                            <span>{t('refineStartLabel')}</span>
+                            <button type="button" className="refinement-branch-btn" onClick={() => setHeadId(null)} disabled={headId === null}>
+                                {t('refineBranchHere')}
+                            </button>
+                        </div>
+                    </div>
+                    {turns.map((turn, index) => {
+                        const resultImage = getVersionImage(turn.resultVersionId);
+                        const isPending = !resultImage && isBusy && index === turns.length - 1;
+                        const previousId = index > 0 ? turns[index - 1].id : null;
+                        return (
+                            <React.Fragment key={turn.id}>
+                                <div className="refinement-bubble feedback">
+                                    {turn.parentId !== previousId && (
+                                        <span className="refinement-branch-note">
+                                            {turn.parentId
+                                                ? t('refineBranchOf', { turn: String(getTurnNumber(turn.parentId)) })
+                                                : t('refineBranchOfStart')}
+                                        </span>
+                                    )}
+                                    <span>{turn.feedback}</span>
+                                </div>
+                                <div className={`refinement-bubble result ${headId === turn.id ? 'is-head' : ''}`}>
+                                    {resultImage ? (
+                                        <img src={resultImage} alt={`${displayLabel} #${index + 1}`} />
+                                    ) : isPending ? (
+                                        <div className="spinner"></div>
+                                    ) : (
+                                        <span className="refinement-failed">{t('refineTurnFailed')}</span>
+                                    )}
+                                    <div className="refinement-bubble-footer">
+                                        <span>{`#${index + 1}`}</span>
+                                        <button
+                                            type="button"
+                                            className="refinement-branch-btn"
+                                            onClick={() => setHeadId(turn.id)}
+                                            disabled={!resultImage || headId === turn.id}
+                                        >
+                                            {t('refineBranchHere')}
+                                        </button>
+                                    </div>
+                                </div>
+                            </React.Fragment>
+                        );
+                    })}
+                    <div ref={threadEndRef} />
+                </div>
+                <p className="refinement-head-note">
+                    {headTurn
+                        ? t('refineContinuingFrom', { turn: String(getTurnNumber(headTurn.id)) })
+                        : t('refineContinuingFromStart')}
+                </p>
+                <div className="refinement-chips">
+                    {REFINEMENT_QUICK_FIXES.map(key => (
+                        <button key={key} type="button" className="refinement-chip" onClick={() => handleChip(key)}>
+                            {t(key)}
+                        </button>
+                    ))}
+                </div>
+                <form onSubmit={handleSend} className="refinement-form">
+                    <textarea
+                        id="feedback-input"
+                        aria-label={t('regeneratePrompt')}
+                        value={feedback}
+                        onChange={(e) => setFeedback(e.target.value)}
+                        placeholder={t('regeneratePlaceholder')}
+                        rows={3}
+                        autoFocus
+                    />
+                    <div className="modal-actions">
+                        <button type="button" onClick={onClose} className="modal-button secondary">{t('closeButton')}</button>
+                        <button type="submit" className="modal-button primary" disabled={!feedback.trim() || isBusy}>
+                            {isBusy ? t('generatingButton') : t('regenerateButton')}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const VersionHistoryModal = ({ sticker, onRevert, onClose }: { sticker: Sticker; onRevert: (id: string, versionId: string) => void; onClose: () => void; }) => {
+    const { t, language } = useLanguage();
+    const modalContentRef = useRef<HTMLDivElement>(null);
+    const displayLabel = getExpressionLabel(sticker, language, t);
+    const versions = sticker.versions;
+    const currentVersion = versions.find(v => v.id === sticker.currentVersionId) ?? versions[versions.length - 1];
+    const [compareId, setCompareId] = useState<string | null>(() => {
+        const currentIndex = versions.findIndex(v => v.id === currentVersion?.id);
+        return versions[currentIndex - 1]?.id ?? currentVersion?.id ?? null;
+    });
+    const compareVersion = versions.find(v => v.id === compareId) ?? currentVersion;
+
+    const getVersionNumber = (version: StickerVersion) => versions.indexOf(version) + 1;
+    const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+    const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (modalContentRef.current && !modalContentRef.current.contains(e.target as Node)) {
+          onClose();
+        }
+    };
+
+    if (!currentVersion || !compareVersion) {
+        return null;
+    }
+
+    const renderVersionFigure = (version: StickerVersion, caption: string) => (
+        <figure className="version-compare-pane">
+            <div className="checkerboard-bg">
+                <img src={version.imageUrl} alt={`${displayLabel} v${getVersionNumber(version)}`} />
+            </div>
+            <figcaption>{caption}</figcaption>
+        </figure>
+    );
+
+    return (
+        <div className="modal-backdrop" onClick={handleBackdropClick}>
+            <div className="version-history-modal" ref={modalContentRef}>
+                <h3>{t('versionHistoryTitle', { label: displayLabel })}</h3>
+                <div className="version-compare">
+                    {renderVersionFigure(compareVersion, `v${getVersionNumber(compareVersion)} • ${t(`versionKind_${compareVersion.kind}`)}`)}
+                    {renderVersionFigure(currentVersion, `${t('versionCurrent')} (v${getVersionNumber(currentVersion)})`)}
+                </div>
+                {compareVersion.feedback && (
+                    <p className="version-feedback">{t('versionFeedbackLabel')} “{compareVersion.feedback}”</p>
+                )}
+                {compareVersion.prompt && (
+                    <details className="version-prompt">
+                        <summary>{t('versionPromptLabel')}</summary>
+                        <pre>{compareVersion.prompt}</pre>
+                    </details>
+                )}
+                <ol className="version-list">
+                    {versions.map(version => (
+                        <li key={version.id}>
+                            <button
+                                type="button"
+                                className={`version-list-item ${version.id === compareVersion.id ? 'selected' : ''} ${version.id === currentVersion.id ? 'current' : ''}`}
+                                onClick={() => setCompareId(version.id)}
+                            >
+                                <img src={version.imageUrl} alt="" />
+                                <span className="version-list-text">
+                                    <strong>{`v${getVersionNumber(version)}`}</strong>
+                                    <span>{t(`versionKind_${version.kind}`)}</span>
+                                    <span className="version-list-time">{formatTime(version.createdAt)}</span>
+                                </span>
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+                <div className="modal-actions">
+                    <button onClick={onClose} className="modal-button secondary">{t('closeButton')}</button>
+                    <button
+                        onClick={() => onRevert(sticker.id, compareVersion.id)}
+                        className="modal-button primary"
+                        disabled={compareVersion.id === currentVersion.id}
+                    >
+                        {t('versionRevertButton', { version: String(getVersionNumber(compareVersion)) })}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const EMPTY_STYLE_DRAFT: ArtisticStyle = { id: '', name: { sw: '', en: '' }, instruction: '' };
+
+const StyleLibraryModal = ({ customStyles, onChange, onClose }: { customStyles: ArtisticStyle[]; onChange: (styles: ArtisticStyle[]) => void; onClose: () => void; }) => {
+    const { t, language } = useLanguage();
+    const modalContentRef = useRef<HTMLDivElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [draft, setDraft] = useState<ArtisticStyle | null>(null);
+    const [importError, setImportError] = useState<string | null>(null);
+
+    const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (modalContentRef.current && !modalContentRef.current.contains(e.target as Node)) {
+          onClose();
+        }
+    };
+
+    const updateDraft = (changes: Partial<ArtisticStyle>) => setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+    const updateDraftName = (lang: Language, value: string) => setDraft(prev => (prev ? { ...prev, name: { ...prev.name, [lang]: value } } : prev));
+
+    const handleSaveDraft = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft) return;
+        const en = draft.name.en.trim();
+        const sw = draft.name.sw.trim();
+        if ((!en && !sw) || !draft.instruction.trim()) return;
+        const style: ArtisticStyle = {
+            id: draft.id || crypto.randomUUID(),
+            name: { en: en || sw, sw: sw || en },
+            instruction: draft.instruction.trim(),
+            framing: draft.framing?.trim() || undefined,
+            outline: draft.outline?.trim() || undefined,
+        };
+        onChange(customStyles.some(s => s.id === style.id)
+            ? customStyles.map(s => (s.id === style.id ? style : s))
+            : [...customStyles, style]);
+        setDraft(null);
+    };
+
+    const handleDuplicate = (style: ArtisticStyle) => {
+        const copy = duplicateStyle(style, t('styleCopySuffix'));
+        onChange([...customStyles, copy]);
+        setDraft(copy);
+    };
+
+    const handleDelete = (style: ArtisticStyle) => {
+        onChange(customStyles.filter(s => s.id !== style.id));
+        if (draft?.id === style.id) {
+            setDraft(null);
+        }
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([serializeStyleLibrary(customStyles)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        downloadImage(url, 'stickerme_styles.json');
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImportFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parseStyleLibrary(await file.text(), customStyles);
+            if (imported.length === 0) {
+                setImportError(t('styleImportEmpty'));
+                return;
+            }
+            onChange([...customStyles, ...imported]);
+            setImportError(null);
+        } catch (err) {
+            console.error('Failed to import styles', err);
+            setImportError(t('styleImportInvalid'));
+        }
+    };
+
+    const renderStyleRow = (style: ArtisticStyle) => (
+        <li key={style.id} className={`style-library-item ${draft?.id === style.id ? 'selected' : ''}`}>
+            <span className="style-library-name">
+                {getStyleDisplayName(style, language, t)}
+                {style.builtIn && <span className="style-library-badge">{t('styleBuiltInBadge')}</span>}
+            </span>
+            <span className="style-library-actions">
+                {!style.builtIn && (
+                    <button type="button" className="style-library-icon-button" onClick={() => setDraft(style)} title={t('styleEditTooltip')} aria-label={t('styleEditTooltip')}><EditIcon /></button>
+                )}
+                <button type="button" className="modal-button secondary" onClick={() => handleDuplicate(style)}>{t('styleDuplicateButton')}</button>
+                {!style.builtIn && (
+                    <button type="button" className="style-library-icon-button" onClick={() => handleDelete(style)} title={t('deleteTooltip')} aria-label={t('deleteTooltip')}><BinIcon /></button>
+                )}
+            </span>
+        </li>
+    );
+
+    return (
+        <div className="modal-backdrop" onClick={handleBackdropClick}>
+            <div className="style-library-modal" ref={modalContentRef}>
+                <h3>{t('styleLibraryTitle')}</h3>
+                <ul className="style-library-list">
+                    {BUILT_IN_STYLES.map(renderStyleRow)}
+                    {customStyles.map(renderStyleRow)}
+                </ul>
+                {draft ? (
+                    <form onSubmit={handleSaveDraft} className="add-expression-modal-form style-library-form">
+                        <div className="form-row">
+                            <input
+                                type="text"
+                                value={draft.name.sw}
+                                onChange={(e) => updateDraftName('sw', e.target.value)}
+                                placeholder={t('styleNameSwPlaceholder')}
+                                className="label-input"
+                            />
+                            <input
+                                type="text"
+                                value={draft.name.en}
+                                onChange={(e) => updateDraftName('en', e.target.value)}
+                                placeholder={t('styleNameEnPlaceholder')}
+                                className="label-input"
+                            />
+                        </div>
+                        <textarea
+                            value={draft.instruction}
+                            onChange={(e) => updateDraft({ instruction: e.target.value })}
+                            placeholder={t('styleInstructionPlaceholder')}
+                            className="label-input"
+                            rows={3}
+                            required
+                        />
+                        <textarea
+                            value={draft.framing ?? ''}
+                            onChange={(e) => updateDraft({ framing: e.target.value })}
+                            placeholder={t('styleFramingPlaceholder')}
+                            className="label-input"
+                            rows={2}
+                        />
+                        <textarea
+                            value={draft.outline ?? ''}
+                            onChange={(e) => updateDraft({ outline: e.target.value })}
+                            placeholder={t('styleOutlinePlaceholder')}
+                            className="label-input"
+                            rows={2}
+                        />
+                        <div className="modal-actions">
+                            <button type="button" onClick={() => setDraft(null)} className="modal-button secondary">{t('cancelButton')}</button>
+                            <button type="submit" className="modal-button primary">{t('styleSaveButton')}</button>
+                        </div>
+                    </form>
+                ) : (
+                    <button type="button" className="modal-button primary" onClick={() => setDraft({ ...EMPTY_STYLE_DRAFT })}>
+                        <AddIcon /> {t('styleNewButton')}
+                    </button>
+                )}
+                {importError && <p className="style-library-error">{importError}</p>}
+                <div className="modal-actions">
+                    <button type="button" onClick={() => importInputRef.current?.click()} className="modal-button secondary">{t('styleImportButton')}</button>
+                    <button type="button" onClick={handleExport} className="modal-button secondary" disabled={customStyles.length === 0}>{t('styleExportButton')}</button>
+                    <button type="button" onClick={onClose} className="modal-button primary">{t('closeButton')}</button>
+                </div>
+                <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} style={{ display: 'none' }} />
+            </div>
+        </div>
+    );
+};
+
+type PromptLabRun = {
+    status: 'running' | 'done' | 'error';
+    variant?: StickerVariant;
+    error?: StickerError;
+    elapsedMs?: number;
+};
+
+const PromptLabModal = ({
+    sticker,
+    inspection,
+    templates,
+    onTemplatesChange,
+    renderPrompt,
+    onRun,
+    onKeep,
+    onClose,
+}: {
+    sticker: Sticker;
+    inspection: PromptInspection | null;
+    templates: [string, string];
+    onTemplatesChange: (templates: [string, string]) => void;
+    renderPrompt: (template: string) => string;
+    onRun: (template: string, seed: number, signal: AbortSignal) => Promise<StickerVariant>;
+    onKeep: (id: string, variant: StickerVariant) => void;
+    onClose: () => void;
+}) => {
+    const { t, language } = useLanguage();
+    const modalContentRef = useRef<HTMLDivElement>(null);
+    const controllersRef = useRef<[AbortController | null, AbortController | null]>([null, null]);
+    const [seed, setSeed] = useState(0);
+    const [runs, setRuns] = useState<[PromptLabRun | null, PromptLabRun | null]>([null, null]);
+    const [keptSlots, setKeptSlots] = useState<number[]>([]);
+    const displayLabel = getExpressionLabel(sticker, language, t);
+
+    // Lab requests run outside the queue; abort them if the panel is closed mid-run.
+    useEffect(() => () => controllersRef.current.forEach(controller => controller?.abort()), []);
+
+    const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (modalContentRef.current && !modalContentRef.current.contains(e.target as Node)) {
+          onClose();
+        }
+    };
+
+    const updateRun = (slot: number, run: PromptLabRun) =>
+        setRuns(prev => (slot === 0 ? [run, prev[1]] : [prev[0], run]));
+
+    // A slot shows only its latest run, so starting another aborts the one still in flight
+    const runSlot = async (slot: number) => {
+        controllersRef.current[slot]?.abort();
+        const controller = new AbortController();
+        controllersRef.current[slot] = controller;
+        const startedAt = performance.now();
+        updateRun(slot, { status: 'running' });
+        setKeptSlots(prev => prev.filter(kept => kept !== slot));
+        try {
+            const variant = await onRun(templates[slot], seed, controller.signal);
+            if (controller.signal.aborted) {
+                return;
+            }
+            updateRun(slot, { status: 'done', variant, elapsedMs: performance.now() - startedAt });
+        } catch (err) {
+            if (!controller.signal.aborted) {
+                console.error('Prompt lab run failed', err);
+                updateRun(slot, { status: 'error', error: toStickerError(err), elapsedMs: performance.now() - startedAt });
+            }
+        } finally {
+            if (controllersRef.current[slot] === controller) {
+                controllersRef.current[slot] = null;
+            }
+        }
+    };
+
+    const isRunning = runs.some(run => run?.status === 'running');
+
+    const handleTemplateChange = (slot: number, value: string) =>
+        onTemplatesChange(slot === 0 ? [value, templates[1]] : [templates[0], value]);
+
+    const renderRunResult = (slot: number) => {
+        const run = runs[slot];
+        if (!run) {
+            return <p className="prompt-lab-empty">{t('promptLabNotRun')}</p>;
+        }
+        if (run.status === 'running') {
+            return <div className="spinner"></div>;
+        }
+        const elapsed = run.elapsedMs !== undefined ? `${(run.elapsedMs / 1000).toFixed(1)} s` : '';
+        if (run.status === 'error' || !run.variant) {
+            return (
+                <p className="prompt-lab-error">
+                    {t(GENERATION_ERROR_INFO[run.error?.kind ?? 'unknown'].messageKey)}
+                    {run.error?.details && <code>{run.error.details}</code>}
+                </p>
+            );
+        }
+        const { variant } = run;
+        return (
+            <>
+                <div className="checkerboard-bg prompt-lab-image">
+                    <img src={variant.imageUrl} alt={`${displayLabel} ${slot === 0 ? 'A' : 'B'}`} />
+                </div>
+                <p className="prompt-lab-meta">
+                    {[variant.imageMeta && `${variant.imageMeta.width}×${variant.imageMeta.height} px`, variant.imageMeta && formatBytes(variant.imageMeta.byteSize), elapsed]
+                        .filter(Boolean)
+                        .join(' • ')}
+                </p>
+                <button
+                    type="button"
+                    className="modal-button secondary"
+                    disabled={keptSlots.includes(slot)}
+                    onClick={() => {
+                        onKeep(sticker.id, variant);
+                        setKeptSlots(prev => [...prev, slot]);
+                    }}
+                >
+                    {keptSlots.includes(slot) ? t('promptLabKept') : t('promptLabKeep')}
+                </button>
+            </>
+        );
+    };
+
+    return (
+        <div className="modal-backdrop" onClick={handleBackdropClick}>
+            <div className="prompt-lab-modal" ref={modalContentRef}>
+                <h3>{t('promptLabTitle', { label: displayLabel })}</h3>
+
+                <section className="prompt-inspector">
+                    <h4>{inspection ? t('promptInspectorLastRequest') : t('promptInspectorNoRequest')}</h4>
+                    {inspection && (
+                        <p className="prompt-lab-meta">
+                            {t('promptInspectorSummary', {
+                                provider: t(`imageProvider_${inspection.providerId}`),
+                                seeds: inspection.seeds.join(', '),
+                                time: new Date(inspection.createdAt).toLocaleTimeString(language),
+                            })}
+                        </p>
+                    )}
+                    {inspection && (
+                        <ol className="prompt-inspector-parts">
+                            {inspection.parts.map((part, index) => (
+                                <li key={index}>
+                                    <img src={part.previewUrl} alt="" />
+                                    <span>{`${index + 1}. ${t(`promptPartRole_${part.role}`)}`}</span>
+                                    <span className="prompt-lab-meta">{`${part.mimeType} • ${formatBytes(part.byteSize)}`}</span>
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                    <pre className="prompt-inspector-text">{inspection ? inspection.prompt : renderPrompt(DEFAULT_PROMPT_TEMPLATES.fresh)}</pre>
+                </section>
+
+                <section className="prompt-lab">
+                    <div className="prompt-lab-toolbar">
+                        <label htmlFor="promptLabSeed">{t('promptLabSeedLabel')}</label>
+                        <input
+                            id="promptLabSeed"
+                            type="number"
+                            min={0}
+                            value={seed}
+                            onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                        />
+                        <button
+                            type="button"
+                            className="modal-button primary"
+                            onClick={() => { void runSlot(0); void runSlot(1); }}
+                            disabled={isRunning}
+                        >
+                            {t('promptLabRunBoth')}
+                        </button>
+                        <button
+                            type="button"
+                            className="modal-button secondary"
+                            onClick={() => onTemplatesChange([DEFAULT_PROMPT_TEMPLATES.fresh, DEFAULT_PROMPT_TEMPLATES.fresh])}
+                        >
+                            {t('promptLabResetTemplates')}
+                        </button>
+                    </div>
+                    <p className="prompt-lab-meta">
+                        {t('promptLabPlaceholders')} {PROMPT_TEMPLATE_PLACEHOLDERS.map(name => `{${name}}`).join(' ')}
+                    </p>
+                    <div className="prompt-lab-columns">
+                        {[0, 1].map(slot => (
+                            <div key={slot} className="prompt-lab-column">
+                                <h4>{t('promptLabVariant', { variant: slot === 0 ? 'A' : 'B' })}</h4>
+                                <textarea
+                                    value={templates[slot]}
+                                    onChange={(e) => handleTemplateChange(slot, e.target.value)}
+                                    rows={8}
+                                    spellCheck={false}
+                                    aria-label={t('promptLabTemplateLabel', { variant: slot === 0 ? 'A' : 'B' })}
+                                />
+                                <details>
+                                    <summary>{t('promptLabRendered')}</summary>
+                                    <pre className="prompt-inspector-text">{renderPrompt(templates[slot])}</pre>
+                                </details>
+                                <button
+                                    type="button"
+                                    className="modal-button primary"
+                                    onClick={() => void runSlot(slot)}
+                                    disabled={runs[slot]?.status === 'running'}
+                                >
+                                    {t('promptLabRun', { variant: slot === 0 ? 'A' : 'B' })}
+                                </button>
+                                <div className="prompt-lab-result">{renderRunResult(slot)}</div>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+
+                <div className="modal-actions">
+                    <button onClick={onClose} className="modal-button secondary">{t('closeButton')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const CameraModal = ({ onPictureTaken, onClose }: { onPictureTaken: (imageDataUrl: string) => void; onClose: () => void; }) => {
+    const { t } = useLanguage();
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+
+    const [capturedImage, setCapturedImage] = useState<string | null>(null);
+    const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
+    const [error, setError] = useState<string | null>(null);
+
+    const stopStream = useCallback(() => {
+        if (streamRef.current) {
+            streamRef.current.getTracks().forEach(track => track.stop());
+            streamRef.current = null;
+        }
+    }, []);
+    
+    const startStream = useCallback(async () => {
+        stopStream();
+        setCapturedImage(null);
+        setError(null);
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode } });
+            streamRef.current = stream;
+            if (videoRef.current) {
+                videoRef.current.srcObject = stream;
+            }
+        } catch (err) {
+            console.error("Error accessing camera:", err);
+            setError(t('errorCamera'));
+        }
+    }, [facingMode, stopStream, t]);
+
+    useEffect(() => {
+        startStream();
+        return stopStream;
+    }, [startStream, stopStream]);
+
+    const handleTakePicture = () => {
+        if (videoRef.current && canvasRef.current) {
+            const video = videoRef.current;
+            const canvas = canvasRef.current;
+            canvas.width = video.videoWidth;
+            canvas.height = video.videoHeight;
+            const context = canvas.getContext('2d');
+            if (context) {
+                if (facingMode === 'user') {
+                    context.translate(canvas.width, 0);
+                    context.scale(-1, 1);
+                }
+                context.drawImage(video, 0, 0, canvas.width, canvas.height);
+                const dataUrl = canvas.toDataURL('image/png');
+                setCapturedImage(dataUrl);
+                stopStream();
+            }
+        }
+    };
+
+    const handleSwitchCamera = () => {
+        setFacingMode(prev => (prev === 'user' ? 'environment' : 'user'));
+    };
+
+    const handleRetake = () => {
+        startStream();
+    };
+
+    const handleUsePicture = () => {
+        if (capturedImage) {
+            onPictureTaken(capturedImage);
+        }
+    };
+    
+    const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (e.target === e.currentTarget) {
+            onClose();
+        }
+    };
+
+    return (
+        <div className="modal-backdrop" onClick={handleBackdropClick}>
+            <div className="camera-modal">
+                <div className="camera-modal-header">
+                    <h3>{t('cameraModalTitle')}</h3>
+                </div>
+                <div className="camera-feed-container">
+                    {error && <p className="error-message">{error}</p>}
+                    {!error && (
+                        <>
+                            {capturedImage ? (
+                                <img src={capturedImage} alt="Captured preview" className="camera-preview" />
+                            ) : (
+                                <>
+                                    <video ref={videoRef} autoPlay playsInline className={`camera-feed ${facingMode === 'user' ? 'mirrored' : ''}`}></video>
+                                    <div className="camera-overlay">
+                                        <svg viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet">
+                                            <defs>
+                                                <mask id="selfieMask">
+                                                    <rect width="100" height="100" fill="white" />
+                                                    <ellipse cx="50" cy="50" rx="35" ry="45" fill="black" />
+                                                </mask>
+                                            </defs>
+                                            <rect width="100" height="100" fill="rgba(0,0,0,0.5)" mask="url(#selfieMask)" />
+                                        </svg>
+                                    </div>
+                                </>
+                            )}
+                        </>
+                    )}
+                     <canvas ref={canvasRef} style={{ display: 'none' }}></canvas>
+                </div>
+                <div className="camera-controls">
+                    {capturedImage ? (
+                        <>
+                            <button onClick={handleRetake} className="modal-button secondary">{t('retakeButton')}</button>
+                            <button onClick={handleUsePicture} className="modal-button primary">{t('usePictureButton')}</button>
+                        </>
+                    ) : (
+                        <>
+                            <button onClick={onClose} className="modal-button secondary">{t('cancelButton')}</button>
+                            <button onClick={handleTakePicture} className="capture-btn" title={t('takePictureButton')}></button>
+                            <button onClick={handleSwitchCamera} className="switch-camera-btn" title={t('switchCameraButton')}><CameraSwitchIcon /></button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ImageSourceModal = ({ onSelectFile, onSelectCamera, onClose }: { onSelectFile: () => void; onSelectCamera: () => void; onClose: () => void; }) => {
+    const { t } = useLanguage();
+    const modalContentRef = useRef<HTMLDivElement>(null);
+    const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (modalContentRef.current && !modalContentRef.current.contains(e.target as Node)) {
+          onClose();
+        }
+    };
+
+    return (
+        <div className="modal-backdrop" onClick={handleBackdropClick}>
+            <div className="modal-content" ref={modalContentRef}>
+                <h3>{t('chooseSourceTitle')}</h3>
+                <div className="source-modal-actions">
+                    <button onClick={onSelectFile} className="source-button">
+                        <UploadIcon />
+                        <span>{t('sourceLibrary')}</span>
+                    </button>
+                    <button onClick={onSelectCamera} className="source-button">
+                        <CameraIcon />
+                        <span>{t('sourceCamera')}</span>
+                    </button>
+                </div>
+                <div className="modal-actions">
+                    <button onClick={onClose} className="modal-button secondary">{t('cancelButton')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+/** Where imported images go: into an existing sticker, or into new slots of a section. */
+type ImageImportTarget = {
+    stickerId: string | null;
+    type: ExpressionType;
+    category?: string;
+};
+
+const isStickerBusy = (sticker: Sticker) =>
+    sticker.status === 'queued' || sticker.status === 'running' || sticker.status === 'retrying';
+
+const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+/** A sticker's file size under the current export settings, shown on its overlay. */
+type EncodedSize = Omit<EncodedSticker, 'blob'> & { byteSize: number };
+
+type EncodedStickerEntry = {
+    imageUrl: string;
+    settingsKey: string;
+    size: EncodedSize | null; // null when this browser could not encode it
+};
+
+const getEncodeSettingsKey = (settings: StickerEncodeSettings) => `${settings.format}:${settings.maxBytes ?? ''}`;
+
+const describeEncodedSize = (size: EncodedSize, t: (key: string, replacements?: Record<string, string>) => string) => {
+    const detail = size.lossless
+        ? t('encodedLossless')
+        : size.quality === WEBP_TOP_QUALITY
+            ? t('encodedMaxQuality')
+            : size.quality !== undefined
+                ? t('encodedQuality', { quality: String(size.quality) })
+                : t('encodedColors', { colors: String(size.colors ?? 0) });
+    return size.withinBudget ? detail : `${detail} • ${t('encodedOverBudget')}`;
+};
+
+const StickerItem: React.FC<{ sticker: Sticker, originalFilename: string | null, onRemove: (id: string) => void; onEdit: (sticker: Sticker) => void; onRegenerate: (sticker: Sticker) => void; onRetry: (id: string) => void; onSelectVariant: (id: string, index: number) => void; onShowHistory: (sticker: Sticker) => void; onDuplicate: (id: string) => void; onEditExpression: (sticker: Sticker) => void; onImportImage: (sticker: Sticker) => void; onDownload: (sticker: Sticker, filename: string) => void; onCheckProvider: () => void; onInspect?: (sticker: Sticker) => void; encodedSize?: EncodedSize | null; }> = ({ sticker, originalFilename, onRemove, onEdit, onRegenerate, onRetry, onSelectVariant, onShowHistory, onDuplicate, onEditExpression, onImportImage, onDownload, onCheckProvider, onInspect, encodedSize }) => {
+    const { t, language } = useLanguage();
+    const displayLabel = getExpressionLabel(sticker, language, t);
+    const touchStartXRef = useRef<number | null>(null);
+    const hasVariants = sticker.variants.length > 1;
+
+    const handleDownload = () => {
+        if (sticker.imageUrl) {
+          const prefix = originalFilename ? originalFilename.split('.').slice(0, -1).join('.') : 'sticker';
+          const stickerName = displayLabel.replace(/\s+/g, '_');
+          onDownload(sticker, `${prefix}_${stickerName}`);
+        }
+    };
+    
+    const canInteract = !isStickerBusy(sticker);
+
+    const stepVariant = (direction: 1 | -1) => {
+        const count = sticker.variants.length;
+        if (count > 1 && canInteract) {
+            onSelectVariant(sticker.id, (sticker.selectedVariant + direction + count) % count);
+        }
+    };
+
+    const handleTouchStart = (e: React.TouchEvent<HTMLDivElement>) => {
+        touchStartXRef.current = e.touches[0]?.clientX ?? null;
+    };
+
+    const handleTouchEnd = (e: React.TouchEvent<HTMLDivElement>) => {
+        const startX = touchStartXRef.current;
+        touchStartXRef.current = null;
+        const endX = e.changedTouches[0]?.clientX;
+        if (startX === null || endX === undefined || Math.abs(endX - startX) < 40) {
+            return;
+        }
+        stepVariant(endX < startX ? 1 : -1);
+    };
+
+    const renderContent = () => {
+        switch (sticker.status) {
+            case 'queued':
+                return (
+                    <div className="sticker-queue-status">
+                        <span className="sticker-emoji" aria-hidden="true">⏳</span>
+                        <span>{t('stickerQueued')}</span>
+                    </div>
+                );
+            case 'running':
+                return <div className="spinner"></div>;
+            case 'retrying':
+                return (
+                    <div className="sticker-queue-status">
+                        <div className="spinner"></div>
+                        <span>{t('stickerRetrying', { attempt: String((sticker.attempt ?? 1) + 1) })}</span>
+                    </div>
+                );
+            case 'done':
+                return <img src={sticker.imageUrl!} alt={displayLabel} className="sticker-image" />;
+            case 'error': {
+                const errorInfo = GENERATION_ERROR_INFO[sticker.error?.kind ?? 'unknown'];
+                return (
+                    <div className="sticker-error-content">
+                        <span className="sticker-emoji" role="img" aria-label={t('stickerError')}>⚠️</span>
+                        <span className="sticker-error-message">{t(errorInfo.messageKey)}</span>
+                        {errorInfo.hintKey && <span className="sticker-error-hint">{t(errorInfo.hintKey)}</span>}
+                        <div className="sticker-error-actions">
+                            {errorInfo.recovery === 'reprocess' && sticker.originalImageUrl && (
+                                <button type="button" className="sticker-error-btn" onClick={() => onEdit(sticker)}>
+                                    {t('errorActionFixTransparency')}
+                                </button>
+                            )}
+                            {errorInfo.recovery === 'reword' && (
+                                <button type="button" className="sticker-error-btn" onClick={() => onEditExpression(sticker)}>
+                                    {t('errorActionReword')}
+                                </button>
+                            )}
+                            {errorInfo.recovery === 'checkKey' && (
+                                <button type="button" className="sticker-error-btn" onClick={onCheckProvider}>
+                                    {t('errorActionCheckKey')}
+                                </button>
+                            )}
+                            <button type="button" className="sticker-error-btn" onClick={() => onRetry(sticker.id)}>
+                                {t('errorActionRetry')}
+                            </button>
+                        </div>
+                        {sticker.error?.details && (
+                            <details className="sticker-error-details">
+                                <summary>{t('errorDetailsSummary')}</summary>
+                                <code>{sticker.error.details}</code>
+                            </details>
+                        )}
+                    </div>
+                );
+            }
+            case 'idle':
+            default:
+                if (sticker.type === 'expressive') {
+                    return (
+                        <>
+                            <span className="sticker-emoji-bg" aria-hidden="true">{sticker.emoji}</span>
+                            <span className="sticker-text-fg">{displayLabel}</span>
+                        </>
+                    );
+                }
+                return <span className="sticker-emoji" role="img" aria-label={displayLabel}>{sticker.emoji}</span>;
+        }
+    };
 
     return (
     <div className="sticker-item">
         {canInteract && (
             <div className="sticker-item-actions">
-                {(sticker.status === 'done' || sticker.status === 'error') && (
+                {(sticker.status === 'done' || sticker.status === 'error') && sticker.imageUrl && (
                     <button
                         className="sticker-action-btn regenerate-btn"
                         onClick={() => onRegenerate(sticker)}
@@ -1146,9 +2968,53 @@ const StickerItem: React.FC<{ sticker: Sticker, originalFilename: string | null,
                         <EditIcon />
                     </button>
                 )}
+                {sticker.versions.length > 1 && (
+                    <button
+                        className="sticker-action-btn history-btn"
+                        onClick={() => onShowHistory(sticker)}
+                        aria-label={`${t('versionHistoryTooltip')} ${displayLabel}`}
+                        title={t('versionHistoryTooltip')}
+                    >
+                        <HistoryIcon />
+                    </button>
+                )}
+                <button
+                    className="sticker-action-btn edit-expression-btn"
+                    onClick={() => onEditExpression(sticker)}
+                    aria-label={`${t('editExpressionTooltip')} ${displayLabel}`}
+                    title={t('editExpressionTooltip')}
+                >
+                    <SlidersIcon />
+                </button>
+                <button
+                    className="sticker-action-btn import-image-btn"
+                    onClick={() => onImportImage(sticker)}
+                    aria-label={`${t('importImageTooltip')} ${displayLabel}`}
+                    title={t('importImageTooltip')}
+                >
+                    <UploadIcon />
+                </button>
+                <button
+                    className="sticker-action-btn duplicate-btn"
+                    onClick={() => onDuplicate(sticker.id)}
+                    aria-label={`${t('duplicateTooltip')} ${displayLabel}`}
+                    title={t('duplicateTooltip')}
+                >
+                    <CopyIcon />
+                </button>
+                {onInspect && (
+                    <button
+                        className="sticker-action-btn inspect-btn"
+                        onClick={() => onInspect(sticker)}
+                        aria-label={`${t('promptInspectorTooltip')} ${displayLabel}`}
+                        title={t('promptInspectorTooltip')}
+                    >
+                        <CodeIcon />
+                    </button>
+                )}
                 <button
                     className="sticker-action-btn delete-btn"
-                    onClick={() => onRemove(sticker.label)}
+                    onClick={() => onRemove(sticker.id)}
                     aria-label={`${t('deleteTooltip')} ${displayLabel}`}
                     title={`${t('deleteTooltip')} ${displayLabel}`}
                 >
@@ -1156,12 +3022,27 @@ const StickerItem: React.FC<{ sticker: Sticker, originalFilename: string | null,
                 </button>
             </div>
         )}
-        <div className="sticker-placeholder">
+        <div
+            className="sticker-placeholder"
+            onTouchStart={hasVariants ? handleTouchStart : undefined}
+            onTouchEnd={hasVariants ? handleTouchEnd : undefined}
+        >
             {renderContent()}
+            {hasVariants && canInteract && (
+                <span className="variant-counter">{`${sticker.selectedVariant + 1}/${sticker.variants.length}`}</span>
+            )}
             {sticker.status === 'done' && sticker.imageMeta && (
-                <div className="sticker-meta-overlay">
+                // encodedSize is undefined when exports keep the stored PNG, null while it is being worked out
+                <div className={`sticker-meta-overlay${encodedSize && !encodedSize.withinBudget ? ' over-budget' : ''}`}>
                     <span>{`${sticker.imageMeta.width}×${sticker.imageMeta.height} px`}</span>
-                    <span>{formatBytes(sticker.imageMeta.byteSize)}</span>
+                    <span>
+                        {encodedSize === undefined
+                            ? formatBytes(sticker.imageMeta.byteSize)
+                            : encodedSize
+                                ? `${formatBytes(encodedSize.byteSize)} ${encodedSize.format.toUpperCase()}`
+                                : t('encodedSizePending')}
+                    </span>
+                    {encodedSize && <span className="sticker-meta-detail">{describeEncodedSize(encodedSize, t)}</span>}
                 </div>
             )}
             <div className="sticker-label">
@@ -1173,45 +3054,311 @@ const StickerItem: React.FC<{ sticker: Sticker, originalFilename: string | null,
                 )}
             </div>
         </div>
+        {hasVariants && (
+            <div className="variant-strip" role="listbox" aria-label={t('variantStripLabel')}>
+                {sticker.variants.map((variant, index) => (
+                    <button
+                        key={index}
+                        type="button"
+                        role="option"
+                        aria-selected={index === sticker.selectedVariant}
+                        className={`variant-thumb ${index === sticker.selectedVariant ? 'active' : ''}`}
+                        onClick={() => onSelectVariant(sticker.id, index)}
+                        disabled={!canInteract}
+                        title={t('variantPickTooltip', { index: String(index + 1) })}
+                    >
+                        <img src={variant.imageUrl} alt={`${displayLabel} ${index + 1}`} />
+                    </button>
+                ))}
+            </div>
+        )}
     </div>
     );
 };
 
-const StickerGrid = ({ stickers, originalFilename, gridSize, onAddClick, onRemove, onEdit, onRegenerate }: { stickers: Sticker[]; originalFilename: string | null; gridSize: GridSize; onAddClick: (type: ExpressionType) => void; onRemove: (label: string) => void; onEdit: (sticker: Sticker) => void; onRegenerate: (sticker: Sticker) => void; }) => {
-    const { t } = useLanguage();
-    
-    const plainStickers = stickers.filter(s => s.type === 'plain');
-    const expressiveStickers = stickers.filter(s => s.type === 'expressive');
+const StickerGrid = ({ stickers, categories, collapsedSections, originalFilename, gridSize, onAddClick, onImportImages, onRemove, onEdit, onRegenerate, onRetry, onSelectVariant, onShowHistory, onDuplicate, onEditExpression, onDownload, onCheckProvider, onInspect, encodedSizes, onMove, onStep, onToggleSection, onAddCategory, onRenameCategory, onRemoveCategory }: { stickers: Sticker[]; categories: ExpressionCategory[]; collapsedSections: string[]; originalFilename: string | null; gridSize: GridSize; onAddClick: (type: ExpressionType, category?: string) => void; onImportImages: (files: File[], target: ImageImportTarget) => void; onRemove: (id: string) => void; onEdit: (sticker: Sticker) => void; onRegenerate: (sticker: Sticker) => void; onRetry: (id: string) => void; onSelectVariant: (id: string, index: number) => void; onShowHistory: (sticker: Sticker) => void; onDuplicate: (id: string) => void; onEditExpression: (sticker: Sticker) => void; onDownload: (sticker: Sticker, filename: string) => void; onCheckProvider: () => void; onInspect?: (sticker: Sticker) => void; encodedSizes: Record<string, EncodedSize | null>; onMove: (id: string, sectionId: string, beforeId: string | null) => void; onStep: (id: string, direction: 1 | -1) => void; onToggleSection: (sectionId: string) => void; onAddCategory: (name: string) => void; onRenameCategory: (id: string, name: string) => void; onRemoveCategory: (id: string) => void; }) => {
+    const { t, language } = useLanguage();
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<{ sectionId: string; beforeId: string | null } | null>(null);
+    const [newCategoryName, setNewCategoryName] = useState('');
+    const [renamingCategory, setRenamingCategory] = useState<ExpressionCategory | null>(null);
+    const [fileDropKey, setFileDropKey] = useState<string | null>(null);
+    const gridRef = useRef<HTMLElement>(null);
+    const focusAfterStepRef = useRef<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const importTargetRef = useRef<ImageImportTarget | null>(null);
+
+    const sections = arrangeIntoSections<Sticker>(stickers, categories);
+    const draggedSticker = draggedId ? stickers.find(s => s.id === draggedId) : undefined;
+
+    // Moving a node in the DOM drops its focus, so hand it back to the handle after a keyboard step
+    useEffect(() => {
+        const id = focusAfterStepRef.current;
+        if (id) {
+            focusAfterStepRef.current = null;
+            gridRef.current?.querySelector<HTMLButtonElement>(`[data-sticker-id="${id}"] .sticker-drag-handle`)?.focus();
+        }
+    }, [stickers]);
+
+    const endDrag = () => {
+        setDraggedId(null);
+        setDropTarget(null);
+    };
+
+    const handleDragOver = (e: React.DragEvent, sectionId: string, beforeId: string | null) => {
+        if (!draggedSticker || !canMoveToSection(draggedSticker, sectionId, categories)) {
+            return;
+        }
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = 'move';
+        if (dropTarget?.sectionId !== sectionId || dropTarget.beforeId !== beforeId) {
+            setDropTarget({ sectionId, beforeId });
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent, sectionId: string, beforeId: string | null) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (draggedId) {
+            onMove(draggedId, sectionId, beforeId);
+        }
+        endDrag();
+    };
+
+    // Files dragged in from the desktop become stickers; only slots that are not generating accept them
+    const handleFileDragOver = (e: React.DragEvent, key: string) => {
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = 'copy';
+        if (fileDropKey !== key) {
+            setFileDropKey(key);
+        }
+    };
+
+    const handleFileDrop = (e: React.DragEvent, target: ImageImportTarget) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setFileDropKey(null);
+        const files = Array.from<File>(e.dataTransfer.files);
+        if (files.length) {
+            onImportImages(files, target);
+        }
+    };
+
+    // File drags that no slot takes end up here; without this the browser would open the file in the tab
+    const rejectFileDrag = (e: React.DragEvent) => {
+        if (isFileDrag(e)) {
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'none';
+        }
+    };
+
+    const openImportPicker = (target: ImageImportTarget) => {
+        importTargetRef.current = target;
+        if (importInputRef.current) {
+            importInputRef.current.multiple = !target.stickerId;
+            importInputRef.current.click();
+        }
+    };
+
+    const handleImportInput = (e: ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(e.target.files ?? []);
+        e.target.value = '';
+        if (files.length && importTargetRef.current) {
+            onImportImages(files, importTargetRef.current);
+        }
+        importTargetRef.current = null;
+    };
+
+    const handleHandleKeyDown = (e: React.KeyboardEvent, id: string) => {
+        const direction = e.key === 'ArrowUp' || e.key === 'ArrowLeft' ? -1 : e.key === 'ArrowDown' || e.key === 'ArrowRight' ? 1 : 0;
+        if (direction) {
+            e.preventDefault();
+            focusAfterStepRef.current = id;
+            onStep(id, direction);
+        }
+    };
+
+    const handleAddCategory = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = newCategoryName.trim();
+        if (name) {
+            onAddCategory(name);
+            setNewCategoryName('');
+        }
+    };
+
+    const handleRenameCategory = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (renamingCategory && renamingCategory.name.trim()) {
+            onRenameCategory(renamingCategory.id, renamingCategory.name.trim());
+        }
+        setRenamingCategory(null);
+    };
 
-    const renderGridSection = (title: string, stickerList: Sticker[], type: ExpressionType) => {
-        const buttonLabel = type === 'plain' ? t('addEmotionButton') : t('addExpressionButton');
+    const renderGridSection = (section: ExpressionSection<Sticker>) => {
+        const { id, type, category, items } = section;
+        const isCollapsed = collapsedSections.includes(id);
+        const title = category ? category.name : type === 'plain' ? t('plainEmotionsHeader') : t('expressivePhrasesHeader');
+        const buttonLabel = type === 'expressive' ? t('addExpressionButton') : t('addEmotionButton');
+        const isDropSection = dropTarget?.sectionId === id;
+        const newSlotTarget: ImageImportTarget = { stickerId: null, type: type ?? 'plain', category: category?.id };
+        const newSlotKey = `new:${id}`;
         return (
-            <div className="sticker-category">
-                <h3 className="sticker-category-header">{title}</h3>
-                <div className={`sticker-grid size-${gridSize}`}>
-                    {stickerList.map(sticker => (
-                        <StickerItem 
-                            key={sticker.label}
-                            sticker={sticker} 
-                            originalFilename={originalFilename} 
-                            onRemove={onRemove} 
-                            onEdit={onEdit} 
-                            onRegenerate={onRegenerate} 
-                        />
-                    ))}
-                    <button className="add-sticker-btn" onClick={() => onAddClick(type)} aria-label={buttonLabel}>
-                        <AddIcon />
-                        <span>{buttonLabel}</span>
+            <div
+                key={id}
+                className={`sticker-category${isDropSection ? ' drop-target' : ''}`}
+                onDragOver={(e) => handleDragOver(e, id, null)}
+                onDrop={(e) => !isFileDrag(e) && handleDrop(e, id, null)}
+            >
+                <div className="sticker-category-header">
+                    <button
+                        type="button"
+                        className={`section-toggle${isCollapsed ? ' collapsed' : ''}`}
+                        onClick={() => onToggleSection(id)}
+                        aria-expanded={!isCollapsed}
+                        title={isCollapsed ? t('expandSectionTooltip') : t('collapseSectionTooltip')}
+                    >
+                        <ChevronIcon />
                     </button>
+                    {category && renamingCategory?.id === category.id ? (
+                        <form className="section-rename-form" onSubmit={handleRenameCategory}>
+                            <input
+                                type="text"
+                                value={renamingCategory.name}
+                                onChange={(e) => setRenamingCategory({ ...renamingCategory, name: e.target.value })}
+                                onBlur={handleRenameCategory}
+                                aria-label={t('renameSectionTooltip')}
+                                autoFocus
+                            />
+                        </form>
+                    ) : (
+                        <h3>{title}</h3>
+                    )}
+                    <span className="section-count">{items.length}</span>
+                    {category && (
+                        <div className="section-actions">
+                            <button
+                                type="button"
+                                className="sticker-action-btn"
+                                onClick={() => setRenamingCategory(category)}
+                                aria-label={`${t('renameSectionTooltip')} ${category.name}`}
+                                title={t('renameSectionTooltip')}
+                            >
+                                <EditIcon />
+                            </button>
+                            <button
+                                type="button"
+                                className="sticker-action-btn delete-btn"
+                                onClick={() => onRemoveCategory(category.id)}
+                                aria-label={`${t('deleteSectionTooltip')} ${category.name}`}
+                                title={t('deleteSectionTooltip')}
+                            >
+                                <BinIcon />
+                            </button>
+                        </div>
+                    )}
                 </div>
+                {!isCollapsed && (
+                    <div className={`sticker-grid size-${gridSize}`}>
+                        {items.map(sticker => {
+                            const acceptsFiles = !isStickerBusy(sticker);
+                            const slotTarget: ImageImportTarget = { stickerId: sticker.id, type: sticker.type, category: sticker.category };
+                            return (
+                            <div
+                                key={sticker.id}
+                                data-sticker-id={sticker.id}
+                                className={`sticker-slot${draggedId === sticker.id ? ' dragging' : ''}${isDropSection && dropTarget?.beforeId === sticker.id ? ' drop-before' : ''}${fileDropKey === sticker.id ? ' file-drop' : ''}`}
+                                draggable
+                                onDragStart={(e) => {
+                                    e.dataTransfer.effectAllowed = 'move';
+                                    e.dataTransfer.setData('text/plain', sticker.id);
+                                    setDraggedId(sticker.id);
+                                }}
+                                onDragEnd={endDrag}
+                                onDragOver={(e) => {
+                                    if (!isFileDrag(e)) {
+                                        handleDragOver(e, id, sticker.id);
+                                    } else if (acceptsFiles) {
+                                        handleFileDragOver(e, sticker.id);
+                                    }
+                                }}
+                                onDragLeave={() => setFileDropKey(null)}
+                                onDrop={(e) => (isFileDrag(e) ? acceptsFiles && handleFileDrop(e, slotTarget) : handleDrop(e, id, sticker.id))}
+                            >
+                                <StickerItem
+                                    sticker={sticker}
+                                    originalFilename={originalFilename}
+                                    onRemove={onRemove}
+                                    onEdit={onEdit}
+                                    onRegenerate={onRegenerate}
+                                    onRetry={onRetry}
+                                    onSelectVariant={onSelectVariant}
+                                    onShowHistory={onShowHistory}
+                                    onDuplicate={onDuplicate}
+                                    onEditExpression={onEditExpression}
+                                    onImportImage={() => openImportPicker(slotTarget)}
+                                    onDownload={onDownload}
+                                    onCheckProvider={onCheckProvider}
+                                    onInspect={onInspect}
+                                    encodedSize={encodedSizes[sticker.id]}
+                                />
+                                <button
+                                    type="button"
+                                    className="sticker-drag-handle"
+                                    onKeyDown={(e) => handleHandleKeyDown(e, sticker.id)}
+                                    aria-label={t('reorderHandleLabel', { label: getExpressionLabel(sticker, language, t) })}
+                                    title={t('reorderHandleTooltip')}
+                                >
+                                    <GripIcon />
+                                </button>
+                            </div>
+                            );
+                        })}
+                        <button className="add-sticker-btn" onClick={() => onAddClick(type ?? 'plain', category?.id)} aria-label={buttonLabel}>
+                            <AddIcon />
+                            <span>{buttonLabel}</span>
+                        </button>
+                        <button
+                            className={`add-sticker-btn import-sticker-btn${fileDropKey === newSlotKey ? ' file-drop' : ''}`}
+                            onClick={() => openImportPicker(newSlotTarget)}
+                            onDragOver={(e) => isFileDrag(e) && handleFileDragOver(e, newSlotKey)}
+                            onDragLeave={() => setFileDropKey(null)}
+                            onDrop={(e) => isFileDrag(e) && handleFileDrop(e, newSlotTarget)}
+                            title={t('importImageNewTooltip')}
+                        >
+                            <UploadIcon />
+                            <span>{t('importImageButton')}</span>
+                        </button>
+                    </div>
+                )}
             </div>
         );
     };
 
     return (
-        <section>
-            {renderGridSection(t('plainEmotionsHeader'), plainStickers, 'plain')}
-            {renderGridSection(t('expressivePhrasesHeader'), expressiveStickers, 'expressive')}
+        <section ref={gridRef} onDragOver={rejectFileDrag} onDrop={rejectFileDrag}>
+            <input
+                ref={importInputRef}
+                type="file"
+                accept={IMPORTABLE_IMAGE_TYPES.join(',')}
+                onChange={handleImportInput}
+                style={{ display: 'none' }}
+            />
+            {sections.map(renderGridSection)}
+            <form className="add-section-form" onSubmit={handleAddCategory}>
+                <input
+                    type="text"
+                    value={newCategoryName}
+                    onChange={(e) => setNewCategoryName(e.target.value)}
+                    placeholder={t('addSectionPlaceholder')}
+                    aria-label={t('addSectionPlaceholder')}
+                />
+                <button type="submit" className="modal-button secondary" disabled={!newCategoryName.trim()}>
+                    {t('addSectionButton')}
+                </button>
+            </form>
         </section>
     );
 };
@@ -1592,130 +3739,623 @@ const ExplainerPage = ({ onNavigate }: { onNavigate: () => void; }) => {
     );
 };
 
-const StickerAppPage = ({ onNavigateHome }: { onNavigateHome: () => void }) => {
-  const { t, isReady, translations } = useLanguage();
-  const fileInputRef = useRef<HTMLInputElement>(null);
+const StickerAppPage = ({ onNavigateHome, sharedList, onSharedListHandled }: { onNavigateHome: () => void; sharedList: string | null; onSharedListHandled: () => void }) => {
+  const { t, language, isReady, translations } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const getInitialExpressions = useCallback((): Expression[] => ([
+    { emoji: '👍', label: 'expThumbsUp', type: 'plain', isDefault: true },
+    { emoji: '😏', label: 'expCheekySmile', type: 'plain', isDefault: true },
+    { emoji: '😉', label: 'expNaughtyWink', type: 'plain', isDefault: true },
+    { emoji: '😎', label: 'expCoolShades', type: 'plain', isDefault: true },
+    { emoji: '👏', label: 'expSlowClap', type: 'plain', isDefault: true },
+    { emoji: '😔', label: 'expSadSigh', type: 'plain', isDefault: true },
+    { emoji: '🤦', label: 'expFacepalm', type: 'plain', isDefault: true },
+    { emoji: '☹️', label: 'expFrown', type: 'plain', isDefault: true },
+    { emoji: '😋', label: 'expTongueOut', type: 'plain', isDefault: true },
+    { emoji: '🤔', label: 'expCuriousThinking', type: 'plain', isDefault: true },
+    { emoji: '👌', label: 'expPhrasePoapoa', type: 'expressive', isDefault: true },
+    { emoji: '🧐', label: 'expPhraseNaijuaHiyo', type: 'expressive', isDefault: true },
+    { emoji: '🙅', label: 'expPhraseAchaKabisa', type: 'expressive', isDefault: true },
+    { emoji: '🙅‍♀️', label: 'expPhraseNoThanks', type: 'expressive', isDefault: true },
+    { emoji: '🙏', label: 'expPhraseAhsanteSana', type: 'expressive', isDefault: true },
+    { emoji: '⁉️', label: 'expPhraseAaah', type: 'expressive', isDefault: true },
+    { emoji: '✅', label: 'expPhraseYeeap', type: 'expressive', isDefault: true },
+    { emoji: '🤗', label: 'expPhraseUsiogope', type: 'expressive', isDefault: true },
+    { emoji: '🤥', label: 'expPhraseUwongo', type: 'expressive', isDefault: true },
+    { emoji: '🙄', label: 'expPhraseKausha', type: 'expressive', isDefault: true },
+  ] as Omit<Expression, 'id'>[]).map(withExpressionId), []);
+
+  const [expressions, setExpressions] = useState<Expression[]>([]);
+  const [userImage, setUserImage] = useState<CharacterImage | null>(null);
+  const [originalFilename, setOriginalFilename] = useState<string | null>(null);
+  const [stickers, setStickers] = useState<Sticker[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [backgroundColor, setBackgroundColor] = useState('#FFFFFF');
+  const [transparentBackground, setTransparentBackground] = useState(true);
+  const [imageToCrop, setImageToCrop] = useState<string | null>(null);
+  const [isCropModalOpen, setCropModalOpen] = useState(false);
+  const [isCameraModalOpen, setCameraModalOpen] = useState(false);
+  const [isSourceModalOpen, setSourceModalOpen] = useState(false);
+  const [artisticStyle, setArtisticStyle] = useState(DEFAULT_ARTISTIC_STYLE_ID);
+  const [customStyles, setCustomStyles] = useState<ArtisticStyle[]>(loadStyleLibrary);
+  const [isStyleLibraryOpen, setStyleLibraryOpen] = useState(false);
+  const [styleReference, setStyleReference] = useState<ReferenceImage | null>(null);
+  const [isDeveloperMode, setDeveloperMode] = useState(() => localStorage.getItem(DEVELOPER_MODE_STORAGE_KEY) === 'true');
+  const [promptInspections, setPromptInspections] = useState<Record<string, PromptInspection>>({});
+  const [labTemplates, setLabTemplates] = useState<[string, string]>([DEFAULT_PROMPT_TEMPLATES.fresh, DEFAULT_PROMPT_TEMPLATES.fresh]);
+  const [inspectingSticker, setInspectingSticker] = useState<Sticker | null>(null);
+  const [isSuggestionsOpen, setSuggestionsOpen] = useState(false);
+  const [isPacksOpen, setPacksOpen] = useState(false);
+  const [isShareOpen, setShareOpen] = useState(false);
+  const [incomingSharedList, setIncomingSharedList] = useState<ExpressionPack | null>(null);
+  const [exclusions, setExclusions] = useState('');
+  const [providerId, setProviderId] = useState<ImageProviderId>(getDefaultImageProviderId);
+  const [generationConcurrency, setGenerationConcurrency] = useState(DEFAULT_GENERATION_CONCURRENCY);
+  const [variantsPerSticker, setVariantsPerSticker] = useState(DEFAULT_VARIANTS_PER_STICKER);
+  const [exportFormat, setExportFormat] = useState<StickerEncodeFormat>(DEFAULT_ENCODE_SETTINGS.format);
+  const [exportBudgetKb, setExportBudgetKb] = useState(0);
+  const [encodedStickers, setEncodedStickers] = useState<Record<string, EncodedStickerEntry>>({});
+  const encodingStickerRef = useRef<string | null>(null);
+  const [isQueuePaused, setIsQueuePaused] = useState(false);
+  const [gridSize, setGridSize] = useState<GridSize>('medium');
+  const [expressionTypeToAdd, setExpressionTypeToAdd] = useState<ExpressionType | null>(null);
+  const [pendingImageImport, setPendingImageImport] = useState<{ files: File[]; target: ImageImportTarget } | null>(null);
+  const [pendingPackZip, setPendingPackZip] = useState<{ fileName: string; matches: PackZipMatch[] } | null>(null);
+  const [isPackExportOpen, setPackExportOpen] = useState(false);
+  const [isPreparingDownload, setIsPreparingDownload] = useState(false);
+  const packZipInputRef = useRef<HTMLInputElement>(null);
+  const providerSelectRef = useRef<HTMLSelectElement>(null);
+  const [categoryToAdd, setCategoryToAdd] = useState<string | undefined>(undefined);
+  const [categories, setCategories] = useState<ExpressionCategory[]>([]);
+  const [collapsedSections, setCollapsedSections] = useState<string[]>([]);
+  const [editingSticker, setEditingSticker] = useState<Sticker | null>(null);
+  const [editingExpression, setEditingExpression] = useState<Sticker | null>(null);
+  const [refiningSticker, setRefiningSticker] = useState<Sticker | null>(null);
+  const [historySticker, setHistorySticker] = useState<Sticker | null>(null);
+  const [isInitialized, setIsInitialized] = useState(false);
+  const [projectSaveState, setProjectSaveState] = useState<ProjectSaveState>('idle');
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const pendingProjectRef = useRef<StoredProject | null>(null);
+  const deletedProjectIdsRef = useRef(new Set<string>());
+  const [activeProjectId, setActiveProjectId] = useState(DEFAULT_PROJECT_ID);
+  const [projectName, setProjectName] = useState('');
+  const [projectThumbnail, setProjectThumbnail] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const LOCAL_STORAGE_KEY = 'stickerMeSession';
+
+  // Load settings from localStorage and the photo and stickers from IndexedDB once translations are ready
+  useEffect(() => {
+    if (!isReady || isInitialized) {
+        return;
+    }
+
+    let cancelled = false;
+    let restoredExpressions = getInitialExpressions();
+    let restoredProjectId = DEFAULT_PROJECT_ID;
+    try {
+      const savedStateJSON = localStorage.getItem(LOCAL_STORAGE_KEY);
+      if (savedStateJSON) {
+        const savedState = JSON.parse(savedStateJSON);
+        if (typeof savedState.activeProjectId === 'string' && savedState.activeProjectId) {
+          restoredProjectId = savedState.activeProjectId;
+        }
+        if (savedState.expressions && Array.isArray(savedState.expressions)) {
+          restoredExpressions = migrateSavedExpressions(savedState.expressions);
+        }
+        if (Array.isArray(savedState.categories)) {
+          setCategories(savedState.categories.filter((c: ExpressionCategory) => c && typeof c.id === 'string' && typeof c.name === 'string'));
+        }
+        if (Array.isArray(savedState.collapsedSections)) {
+          setCollapsedSections(savedState.collapsedSections.filter((id: unknown) => typeof id === 'string'));
+        }
+        if (savedState.originalFilename) {
+          setOriginalFilename(savedState.originalFilename);
+        }
+        if (savedState.artisticStyle) {
+          setArtisticStyle(resolveArtisticStyle(savedState.artisticStyle, customStyles).id);
+        }
+        // Older sessions kept the style reference here; newer ones keep it with the project
+        if (savedState.styleReference?.data) {
+          setStyleReference(savedState.styleReference);
+        }
+        if (typeof savedState.exclusions === 'string') {
+          setExclusions(savedState.exclusions);
+        }
+        if (savedState.backgroundColor) {
+          setBackgroundColor(savedState.backgroundColor);
+        }
+        if (typeof savedState.transparentBackground === 'boolean') {
+          setTransparentBackground(savedState.transparentBackground);
+        }
+        if (savedState.gridSize) {
+          setGridSize(savedState.gridSize);
+        }
+        if (isImageProviderId(savedState.providerId)) {
+          setProviderId(savedState.providerId);
+        }
+        if (GENERATION_CONCURRENCY_OPTIONS.includes(savedState.generationConcurrency)) {
+          setGenerationConcurrency(savedState.generationConcurrency);
+        }
+        if (VARIANTS_PER_STICKER_OPTIONS.includes(savedState.variantsPerSticker)) {
+          setVariantsPerSticker(savedState.variantsPerSticker);
+        }
+        if (isStickerEncodeFormat(savedState.exportFormat)) {
+          setExportFormat(savedState.exportFormat);
+        }
+        if (EXPORT_BUDGET_OPTIONS_KB.includes(savedState.exportBudgetKb)) {
+          setExportBudgetKb(savedState.exportBudgetKb);
+        }
+      }
+    } catch (e) {
+      console.error("Failed to load state from localStorage", e);
+      localStorage.removeItem(LOCAL_STORAGE_KEY);
+    }
+    setExpressions(restoredExpressions);
+    setActiveProjectId(restoredProjectId);
+    setProjectName(t('defaultProjectName'));
+
+    loadProject(restoredProjectId)
+      .then(project => {
+        if (cancelled || !project) {
+          return;
+        }
+        if (project.version >= 2) {
+          applyProject(project);
+          return;
+        }
+        // v1 records only held images; the expressions and settings just read from localStorage go with them
+        setUserImage(project.userImage);
+        if (project.originalFilename) {
+          setOriginalFilename(project.originalFilename);
+        }
+        setStyleReference(project.styleReference);
+        setStickers(restoredExpressions.map(exp => {
+          const saved = project.stickers.find(s => s.id === exp.id);
+          return saved ? { ...restoreSavedSticker(saved), ...exp } : createIdleSticker(exp);
+        }));
+      })
+      .catch(err => {
+        console.error('Failed to restore the saved project', err);
+        if (!cancelled) setProjectSaveState('unavailable');
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsInitialized(true);
+          void refreshProjects();
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isReady, isInitialized, getInitialExpressions]);
+
+  // Save state to localStorage whenever settings or expressions change
+  useEffect(() => {
+    if (!isInitialized) {
+      return;
+    }
+    try {
+      // The active project's expressions and settings are mirrored here so the list survives without IndexedDB
+      const sessionData = {
+        version: SESSION_VERSION,
+        activeProjectId,
+        expressions,
+        categories,
+        collapsedSections,
+        originalFilename,
+        artisticStyle,
+        exclusions,
+        backgroundColor,
+        transparentBackground,
+        gridSize,
+        providerId,
+        generationConcurrency,
+        variantsPerSticker,
+        exportFormat,
+        exportBudgetKb,
+      };
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(sessionData));
+    } catch (e) {
+      console.error("Failed to save state to localStorage. Your latest changes might not be saved.", e);
+    }
+  }, [
+    activeProjectId,
+    expressions,
+    categories,
+    collapsedSections,
+    originalFilename,
+    artisticStyle,
+    exclusions,
+    backgroundColor,
+    transparentBackground,
+    gridSize,
+    providerId,
+    generationConcurrency,
+    variantsPerSticker,
+    exportFormat,
+    exportBudgetKb,
+    isInitialized
+  ]);
+
+  const refreshProjects = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error('Failed to list projects', err);
+    }
+  };
+
+  const buildProjectSnapshot = (): StoredProject => ({
+    id: activeProjectId,
+    version: PROJECT_SCHEMA_VERSION,
+    name: projectName,
+    updatedAt: Date.now(),
+    thumbnail: projectThumbnail,
+    userImage,
+    originalFilename,
+    styleReference,
+    expressions,
+    categories,
+    collapsedSections,
+    settings: { artisticStyle, exclusions, backgroundColor, transparentBackground },
+    stickers,
+  });
+
+  // Puts a saved project on screen. App-wide settings (grid size, provider, concurrency) stay as they are.
+  const applyProject = (project: StoredProject) => {
+    setActiveProjectId(project.id);
+    setProjectName(project.name || t('defaultProjectName'));
+    setUserImage(project.userImage);
+    setOriginalFilename(project.originalFilename);
+    setStyleReference(project.styleReference);
+    setExpressions(project.expressions);
+    setCategories(project.categories);
+    setCollapsedSections(project.collapsedSections);
+    setArtisticStyle(resolveArtisticStyle(project.settings.artisticStyle, customStyles).id);
+    setExclusions(project.settings.exclusions);
+    setBackgroundColor(project.settings.backgroundColor);
+    setTransparentBackground(project.settings.transparentBackground);
+    setStickers(project.expressions.map(exp => {
+      const saved = project.stickers.find(s => s.id === exp.id);
+      return saved ? { ...restoreSavedSticker(saved), ...exp } : createIdleSticker(exp);
+    }));
+    setError(null);
+    setImageToCrop(null);
+    setEditingSticker(null);
+    setEditingExpression(null);
+    setRefiningSticker(null);
+    setHistorySticker(null);
+    setInspectingSticker(null);
+    setPromptInspections({});
+  };
+
+  const saveProjectNow = (project: StoredProject) => {
+    // A save queued just before a delete must not bring the project back
+    if (deletedProjectIdsRef.current.has(project.id)) {
+      return;
+    }
+    setProjectSaveState('saving');
+    saveProject(project)
+      .then(async () => {
+        setProjectSaveState('saved');
+        setStorageEstimate(await getStorageEstimate());
+        await refreshProjects();
+      })
+      .catch(err => {
+        console.error('Failed to save the project', err);
+        setProjectSaveState('error');
+        setError(isQuotaExceededError(err) ? t('errorStorageFull') : t('errorProjectSave'));
+      });
+  };
+
+  // Images are too large for localStorage, so the photo and stickers are written to IndexedDB,
+  // batched so a burst of sticker updates becomes one write
+  useEffect(() => {
+    if (!isInitialized || projectSaveState === 'unavailable') {
+      return;
+    }
+    pendingProjectRef.current = buildProjectSnapshot();
+    const timer = setTimeout(() => {
+      const project = pendingProjectRef.current;
+      pendingProjectRef.current = null;
+      if (project) {
+        saveProjectNow(project);
+      }
+    }, PROJECT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [
+    activeProjectId,
+    projectName,
+    projectThumbnail,
+    userImage,
+    originalFilename,
+    styleReference,
+    expressions,
+    categories,
+    collapsedSections,
+    artisticStyle,
+    exclusions,
+    backgroundColor,
+    transparentBackground,
+    stickers,
+    isInitialized,
+  ]);
+
+  useEffect(() => {
+    if (!userImage) {
+      setProjectThumbnail(null);
+      return;
+    }
+    let cancelled = false;
+    normalizeImageSize(userImage.data, PROJECT_THUMBNAIL_SIZE)
+      .then(thumbnail => {
+        if (!cancelled) setProjectThumbnail(thumbnail.dataUrl);
+      })
+      .catch(err => console.warn('Could not create project thumbnail', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [userImage]);
+
+  const encodeSettings = useMemo<StickerEncodeSettings>(
+    () => ({ format: exportFormat, maxBytes: exportBudgetKb ? exportBudgetKb * 1024 : null }),
+    [exportFormat, exportBudgetKb]
+  );
+
+  const encodedSizes = useMemo(() => {
+    const sizes: Record<string, EncodedSize | null> = {};
+    if (!needsEncoding(encodeSettings)) {
+      return sizes;
+    }
+    const settingsKey = getEncodeSettingsKey(encodeSettings);
+    stickers.forEach(sticker => {
+      if (sticker.status !== 'done' || !sticker.imageUrl) {
+        return;
+      }
+      const entry = encodedStickers[sticker.id];
+      if (!entry || entry.imageUrl !== sticker.imageUrl || entry.settingsKey !== settingsKey) {
+        sizes[sticker.id] = null;
+      } else if (entry.size) {
+        sizes[sticker.id] = entry.size;
+      }
+    });
+    return sizes;
+  }, [stickers, encodedStickers, encodeSettings]);
+
+  // Overlay sizes are worked out one sticker at a time; each result re-runs this for the next.
+  // A result that arrives after the image or settings changed is stored and simply found stale.
+  useEffect(() => {
+    if (encodingStickerRef.current) {
+      return;
+    }
+    const sticker = stickers.find(s => encodedSizes[s.id] === null);
+    if (!sticker?.imageUrl) {
+      return;
+    }
+    const imageUrl = sticker.imageUrl;
+    const settingsKey = getEncodeSettingsKey(encodeSettings);
+    encodingStickerRef.current = sticker.id;
+    encodeStickerImage(imageUrl, encodeSettings)
+      .then(({ blob, ...encoded }): EncodedSize | null => ({ ...encoded, byteSize: blob.size }))
+      .catch(err => {
+        console.warn('Could not encode sticker for its size overlay', err);
+        return null;
+      })
+      .then(size => {
+        encodingStickerRef.current = null;
+        setEncodedStickers(prev => ({ ...prev, [sticker.id]: { imageUrl, settingsKey, size } }));
+      });
+  }, [stickers, encodedSizes, encodeSettings]);
+
+  // Leaving #create unmounts the page; write whatever is still waiting for the timer
+  useEffect(() => () => {
+    const project = pendingProjectRef.current;
+    if (project && !deletedProjectIdsRef.current.has(project.id)) {
+      void saveProject(project).catch(err => console.error('Failed to save the project', err));
+    }
+  }, []);
+
+  // Writes the open project straight away, before another one replaces it on screen
+  const flushProject = async () => {
+    pendingProjectRef.current = null;
+    await saveProject(buildProjectSnapshot());
+  };
+
+  // Jobs write into whichever stickers are on screen, so they cannot outlive a project switch
+  const confirmStopGeneration = () => {
+    if (generationQueue.isActive()) {
+      if (!window.confirm(t('confirmStopGeneration'))) {
+        return false;
+      }
+      generationQueue.cancel();
+    }
+    return true;
+  };
+
+  const createBlankProject = (name: string): StoredProject => {
+    const defaults = getInitialExpressions();
+    return {
+      id: crypto.randomUUID(),
+      version: PROJECT_SCHEMA_VERSION,
+      name,
+      updatedAt: Date.now(),
+      thumbnail: null,
+      userImage: null,
+      originalFilename: null,
+      styleReference: null,
+      expressions: defaults,
+      categories: [],
+      collapsedSections: [],
+      settings: { artisticStyle: DEFAULT_ARTISTIC_STYLE_ID, exclusions: '', backgroundColor: '#FFFFFF', transparentBackground: true },
+      stickers: defaults.map(createIdleSticker),
+    };
+  };
+
+  const handleSwitchProject = async (id: string) => {
+    if (id === activeProjectId || !confirmStopGeneration()) {
+      return;
+    }
+    try {
+      await flushProject();
+      const project = await loadProject(id);
+      if (project) {
+        applyProject(project);
+      }
+    } catch (err) {
+      console.error('Failed to switch project', err);
+      setError(t('errorProjectLoad'));
+    }
+    void refreshProjects();
+  };
+
+  const handleNewProject = async () => {
+    if (!confirmStopGeneration()) {
+      return;
+    }
+    try {
+      await flushProject();
+      const project = createBlankProject(t('newProjectName', { number: String(projects.length + 1) }));
+      await saveProject(project);
+      applyProject(project);
+    } catch (err) {
+      console.error('Failed to create project', err);
+      setError(isQuotaExceededError(err) ? t('errorStorageFull') : t('errorProjectSave'));
+    }
+    void refreshProjects();
+  };
+
+  const handleExportProject = async () => {
+    try {
+      const blob = await exportProjectFile(buildProjectSnapshot());
+      const url = URL.createObjectURL(blob);
+      downloadImage(url, `${(projectName || t('defaultProjectName')).replace(/\s+/g, '_')}${PROJECT_FILE_EXTENSION}`);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to export project', err);
+      setError(t('errorProjectExport'));
+    }
+  };
 
-  const getInitialExpressions = useCallback((): Expression[] => [
-    { emoji: '👍', label: 'expThumbsUp', type: 'plain', isDefault: true },
-    { emoji: '😏', label: 'expCheekySmile', type: 'plain', isDefault: true },
-    { emoji: '😉', label: 'expNaughtyWink', type: 'plain', isDefault: true },
-    { emoji: '😎', label: 'expCoolShades', type: 'plain', isDefault: true },
-    { emoji: '👏', label: 'expSlowClap', type: 'plain', isDefault: true },
-    { emoji: '😔', label: 'expSadSigh', type: 'plain', isDefault: true },
-    { emoji: '🤦', label: 'expFacepalm', type: 'plain', isDefault: true },
-    { emoji: '☹️', label: 'expFrown', type: 'plain', isDefault: true },
-    { emoji: '😋', label: 'expTongueOut', type: 'plain', isDefault: true },
-    { emoji: '🤔', label: 'expCuriousThinking', type: 'plain', isDefault: true },
-    { emoji: '👌', label: 'expPhrasePoapoa', type: 'expressive', isDefault: true },
-    { emoji: '🧐', label: 'expPhraseNaijuaHiyo', type: 'expressive', isDefault: true },
-    { emoji: '🙅', label: 'expPhraseAchaKabisa', type: 'expressive', isDefault: true },
-    { emoji: '🙅‍♀️', label: 'expPhraseNoThanks', type: 'expressive', isDefault: true },
-    { emoji: '🙏', label: 'expPhraseAhsanteSana', type: 'expressive', isDefault: true },
-    { emoji: '⁉️', label: 'expPhraseAaah', type: 'expressive', isDefault: true },
-    { emoji: '✅', label: 'expPhraseYeeap', type: 'expressive', isDefault: true },
-    { emoji: '🤗', label: 'expPhraseUsiogope', type: 'expressive', isDefault: true },
-    { emoji: '🤥', label: 'expPhraseUwongo', type: 'expressive', isDefault: true },
-    { emoji: '🙄', label: 'expPhraseKausha', type: 'expressive', isDefault: true },
-  ], []);
+  // An imported file always becomes a new project, so opening the same file twice never overwrites work
+  const handleImportProject = async (file: File) => {
+    let imported: StoredProject;
+    try {
+      imported = await importProjectFile(file);
+    } catch (err) {
+      console.error('Failed to read project file', err);
+      setError(err instanceof ProjectFileError && err.reason === 'newerVersion' ? t('errorProjectFileNewer') : t('errorProjectFileInvalid'));
+      return;
+    }
+    if (!confirmStopGeneration()) {
+      return;
+    }
+    try {
+      await flushProject();
+      const project: StoredProject = {
+        ...imported,
+        id: crypto.randomUUID(),
+        name: imported.name || file.name.replace(/\.[^.]+$/, ''),
+        updatedAt: Date.now(),
+      };
+      await saveProject(project);
+      applyProject(project);
+    } catch (err) {
+      console.error('Failed to import project', err);
+      setError(isQuotaExceededError(err) ? t('errorStorageFull') : t('errorProjectSave'));
+    }
+    void refreshProjects();
+  };
 
-  const [expressions, setExpressions] = useState<Expression[]>([]);
-  const [userImage, setUserImage] = useState<{ data: string; mimeType: string; width: number; height: number; byteSize: number; } | null>(null);
-  const [originalFilename, setOriginalFilename] = useState<string | null>(null);
-  const [stickers, setStickers] = useState<Sticker[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [backgroundColor, setBackgroundColor] = useState('#FFFFFF');
-  const [transparentBackground, setTransparentBackground] = useState(true);
-  const [imageToCrop, setImageToCrop] = useState<string | null>(null);
-  const [isCropModalOpen, setCropModalOpen] = useState(false);
-  const [isCameraModalOpen, setCameraModalOpen] = useState(false);
-  const [isSourceModalOpen, setSourceModalOpen] = useState(false);
-  const [artisticStyle, setArtisticStyle] = useState('Photo-realistic');
-  const [gridSize, setGridSize] = useState<GridSize>('medium');
-  const [expressionTypeToAdd, setExpressionTypeToAdd] = useState<ExpressionType | null>(null);
-  const [editingSticker, setEditingSticker] = useState<Sticker | null>(null);
-  const [regeneratingSticker, setRegeneratingSticker] = useState<Sticker | null>(null);
-  const [isInitialized, setIsInitialized] = useState(false);
-  const LOCAL_STORAGE_KEY = 'stickerMeSession';
+  const handleRenameProject = async (id: string, name: string) => {
+    if (id === activeProjectId) {
+      setProjectName(name); // Saved with the next auto-save
+      setProjects(prev => prev.map(p => (p.id === id ? { ...p, name } : p)));
+      return;
+    }
+    try {
+      await renameProject(id, name);
+    } catch (err) {
+      console.error('Failed to rename project', err);
+    }
+    void refreshProjects();
+  };
 
-  // Load state from localStorage once translations are ready
-  useEffect(() => {
-    if (!isReady || isInitialized) {
-        return;
+  const handleDuplicateProject = async (id: string) => {
+    const source = projects.find(p => p.id === id);
+    try {
+      if (id === activeProjectId) {
+        await flushProject();
+      }
+      await duplicateProject(id, crypto.randomUUID(), t('projectCopyName', { name: source?.name || projectName }));
+    } catch (err) {
+      console.error('Failed to duplicate project', err);
+      setError(isQuotaExceededError(err) ? t('errorStorageFull') : t('errorProjectSave'));
     }
+    void refreshProjects();
+  };
 
+  const handleDeleteProject = async (id: string) => {
+    const target = projects.find(p => p.id === id);
+    if (!window.confirm(t('confirmDeleteProject', { name: target?.name || projectName }))) {
+      return;
+    }
+    const isActive = id === activeProjectId;
+    if (isActive && !confirmStopGeneration()) {
+      return;
+    }
+    // Marked first so an auto-save during the delete cannot write the project back
+    deletedProjectIdsRef.current.add(id);
     try {
-      const savedStateJSON = localStorage.getItem(LOCAL_STORAGE_KEY);
-      if (savedStateJSON) {
-        const savedState = JSON.parse(savedStateJSON);
-        if (savedState.expressions && Array.isArray(savedState.expressions)) {
-          setExpressions(savedState.expressions);
+      await deleteProject(id);
+    } catch (err) {
+      // Still in the list, so its edits must keep saving
+      deletedProjectIdsRef.current.delete(id);
+      console.error('Failed to delete project', err);
+      setError(t('errorProjectSave'));
+      void refreshProjects();
+      return;
+    }
+    try {
+      if (isActive) {
+        // Open the most recent remaining project, or start a fresh one when this was the last
+        const next = projects.find(p => p.id !== id);
+        const project = next ? await loadProject(next.id) : null;
+        if (project) {
+          applyProject(project);
         } else {
-          setExpressions(getInitialExpressions());
-        }
-        if (savedState.originalFilename) {
-          setOriginalFilename(savedState.originalFilename);
-        }
-        if (savedState.artisticStyle) {
-          setArtisticStyle(savedState.artisticStyle);
-        }
-        if (savedState.backgroundColor) {
-          setBackgroundColor(savedState.backgroundColor);
-        }
-        if (typeof savedState.transparentBackground === 'boolean') {
-          setTransparentBackground(savedState.transparentBackground);
-        }
-        if (savedState.gridSize) {
-          setGridSize(savedState.gridSize);
+          const blank = createBlankProject(t('defaultProjectName'));
+          await saveProject(blank);
+          applyProject(blank);
         }
-      } else {
-        setExpressions(getInitialExpressions());
       }
-    } catch (e) {
-      console.error("Failed to load state from localStorage", e);
-      localStorage.removeItem(LOCAL_STORAGE_KEY);
-      setExpressions(getInitialExpressions());
-    } finally {
-      setIsInitialized(true);
+    } catch (err) {
+      console.error('Failed to open a project after deleting', err);
+      setError(t('errorProjectSave'));
     }
-  }, [isReady, isInitialized, getInitialExpressions]);
+    void refreshProjects();
+  };
 
-  // Save state to localStorage whenever settings or expressions change
   useEffect(() => {
-    if (!isInitialized) {
-      return;
-    }
-    try {
-      const sessionData = {
-        expressions,
-        originalFilename,
-        artisticStyle,
-        backgroundColor,
-        transparentBackground,
-        gridSize,
-      };
-      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(sessionData));
-    } catch (e) {
-      console.error("Failed to save state to localStorage. Your latest changes might not be saved.", e);
+    if (isInitialized && userImage) {
+      void requestPersistentStorage().catch(() => false);
     }
-  }, [
-    expressions,
-    originalFilename,
-    artisticStyle,
-    backgroundColor,
-    transparentBackground,
-    gridSize,
-    isInitialized
-  ]);
+  }, [isInitialized, Boolean(userImage)]);
+
+  // The style library outlives sessions, so it is stored on its own and not cleared by "Restore defaults"
+  useEffect(() => {
+    saveStyleLibrary(customStyles);
+  }, [customStyles]);
 
   useEffect(() => {
     setStickers(prevStickers => {
       const newStickers = expressions.map(exp => {
-        const existingSticker = prevStickers.find(s => s.label === exp.label);
-        return existingSticker || { ...exp, imageUrl: null, originalImageUrl: null, status: 'idle' as const, imageMeta: null };
+        const existingSticker = prevStickers.find(s => s.id === exp.id);
+        // Keep generated state but pick up edits to the expression itself (labels, emoji, notes)
+        return existingSticker ? { ...existingSticker, ...exp } : createIdleSticker(exp);
       });
-      return newStickers.filter(s => expressions.some(e => e.label === s.label));
+      return newStickers.filter(s => expressions.some(e => e.id === s.id));
     });
   }, [expressions]);
 
@@ -1725,51 +4365,420 @@ const StickerAppPage = ({ onNavigateHome }: { onNavigateHome: () => void }) => {
         const items = event.clipboardData?.items;
         if (!items) return;
 
-        let imageFile: File | null = null;
-        for (const item of items) {
-            if (item.type.startsWith('image/')) {
-                imageFile = item.getAsFile();
-                break;
-            }
-        }
+        let imageFile: File | null = null;
+        for (const item of items) {
+            if (item.type.startsWith('image/')) {
+                imageFile = item.getAsFile();
+                break;
+            }
+        }
+
+        if (imageFile) {
+            event.preventDefault();
+
+            const reader = new FileReader();
+            reader.onloadend = () => {
+                const imageDataUrl = reader.result as string;
+                if (imageDataUrl) {
+                    setOriginalFilename(`pasted-image-${Date.now()}.png`);
+                    setImageToCrop(imageDataUrl);
+                    setCropModalOpen(true);
+                    setSourceModalOpen(false); // Close modal if open
+                }
+            };
+            reader.readAsDataURL(imageFile);
+        }
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => {
+        document.removeEventListener('paste', handlePaste);
+    };
+  }, []);
+
+  const handleAddExpression = ({ emoji, label, labels, type, exclusions, promptNotes, category }: ExpressionFormValues) => {
+    if (!isExpressionLabelTaken(label)) {
+        const finalEmoji = type === 'expressive' && !emoji ? '💬' : emoji;
+        const expressionToAdd: Expression = { id: crypto.randomUUID(), emoji: finalEmoji, label, labels, type, isDefault: false, exclusions, promptNotes, category };
+        setExpressions(prev => [...prev, expressionToAdd]);
+        setError(null);
+    } else {
+        setError(t('errorExpressionExists', { label }));
+    }
+    setExpressionTypeToAdd(null);
+  };
+
+  // A default expression keeps its translation key unless its wording was changed; then it becomes custom.
+  const handleUpdateExpression = (id: string, { emoji, label, labels, type, exclusions, promptNotes, category, keepImage }: ExpressionFormValues) => {
+    const current = expressions.find(e => e.id === id);
+    if (!current) {
+        return;
+    }
+    if (isExpressionLabelTaken(label, id)) {
+        setError(t('errorExpressionExists', { label }));
+        return;
+    }
+    const otherLanguage: Language = language === 'sw' ? 'en' : 'sw';
+    const keepsDefaultWording = current.isDefault
+        && label === getExpressionDisplayLabel(current)
+        && (labels[otherLanguage] ?? '') === (translations?.[otherLanguage]?.[current.label] ?? '');
+    const updated: Expression = {
+        ...current,
+        emoji: type === 'expressive' && !emoji ? '💬' : emoji,
+        type,
+        exclusions,
+        promptNotes,
+        category,
+        ...(keepsDefaultWording ? {} : { label, labels, isDefault: false }),
+    };
+    setExpressions(prev => prev.map(e => (e.id === id ? updated : e)));
+    if (!keepImage) {
+        // Drop the old image and its history so the next run produces a sticker for the new wording;
+        // a job still on the old wording would land on the reset sticker
+        cancelStickerJobs(id);
+        setStickers(prev => prev.map(s => (s.id === id ? createIdleSticker(updated) : s)));
+    }
+    setError(null);
+    setEditingExpression(null);
+  };
+
+  const getExpressionDisplayLabel = (expression: Expression) => getExpressionLabel(expression, language, t);
+
+  const translateExpressionLabel = (text: string, from: Language, to: Language) =>
+    getLabelTranslator(providerId).translateLabel({ text, from, to });
+
+  // Ids keep state apart, so this only guards against adding what the user can already see in the pack.
+  const isExpressionLabelTaken = (label: string, ignoreId?: string) => {
+    const normalized = label.trim().toLowerCase();
+    return expressions.some(e => e.id !== ignoreId && getExpressionDisplayLabel(e).toLowerCase() === normalized);
+  };
+
+  const requestExpressionSuggestions = (alsoExclude: string[], signal: AbortSignal) => {
+    if (!userImage) {
+        return Promise.reject(new GenerationError('unknown', t('errorUploadFirst')));
+    }
+    return getExpressionSuggester(providerId).suggestExpressions({
+        image: { data: dataUrlToBase64(userImage.data), mimeType: userImage.mimeType },
+        language,
+        existingLabels: [...expressions.map(getExpressionDisplayLabel), ...alsoExclude],
+        count: DEFAULT_SUGGESTION_COUNT,
+        signal,
+    });
+  };
+
+  // Suggestions become ordinary custom expressions; anything already in the pack is skipped.
+  const handleAddSuggestions = (suggestions: ExpressionSuggestion[]) => {
+    setExpressions(prev => {
+        const taken = new Set(prev.map(e => getExpressionDisplayLabel(e).toLowerCase()));
+        const additions: Expression[] = [];
+        for (const suggestion of suggestions) {
+            const key = suggestion.label.trim().toLowerCase();
+            if (!taken.has(key)) {
+                taken.add(key);
+                additions.push({
+                    id: crypto.randomUUID(),
+                    emoji: suggestion.emoji,
+                    label: suggestion.label.trim(),
+                    labels: { [language]: suggestion.label.trim() },
+                    type: suggestion.type,
+                    isDefault: false,
+                });
+            }
+        }
+        return additions.length ? [...prev, ...additions] : prev;
+    });
+  };
+
+  const handleAddClick = (type: ExpressionType, category?: string) => {
+    setExpressionTypeToAdd(type);
+    setCategoryToAdd(category);
+  };
+
+  const handleRequestImageImport = (files: File[], target: ImageImportTarget) => {
+    const zipFile = files.find(isZipFile);
+    if (zipFile) {
+        void handleOpenPackZip(zipFile);
+        return;
+    }
+    const images = files.filter(file => IMPORTABLE_IMAGE_TYPES.includes(file.type));
+    if (images.length === 0) {
+        setError(t('errorImportImageType'));
+        return;
+    }
+    // A slot holds one image; extra files only make sense when creating new slots
+    setPendingImageImport({ files: target.stickerId ? images.slice(0, 1) : images, target });
+  };
+
+  // Imported images go through the same sizing and background removal as generated ones,
+  // so editing, refining and export treat them alike
+  const createImportedVariant = async (file: Blob, removeBackground: boolean): Promise<StickerVariant> => {
+    const normalized = await normalizeImageSize(await blobToDataUrl(file), MAX_STICKER_DIMENSION);
+    const original = await convertToPng(normalized.dataUrl);
+    const transparencyOptions: TransparencyOptions = { ...DEFAULT_TRANSPARENCY_OPTIONS, maxDimension: MAX_STICKER_DIMENSION };
+    let imageUrl = original;
+    let transparencyError: GenerationError | null = null;
+    if (removeBackground) {
+        // Like a generated sticker, the image is kept so the background can be fixed in the editor
+        try {
+            imageUrl = await makeBackgroundTransparent(original, transparencyOptions);
+        } catch (processError) {
+            console.warn('Could not remove the background of an imported image, keeping the original.', processError);
+            transparencyError = new GenerationError('transparency', String(processError));
+        }
+    }
+    return {
+        imageUrl,
+        originalImageUrl: original,
+        imageMeta: { width: normalized.width, height: normalized.height, byteSize: getDataUrlByteSize(imageUrl) },
+        prompt: '',
+        transparencyOptions: removeBackground ? transparencyOptions : null,
+        error: transparencyError ? toStickerError(transparencyError) : undefined,
+    };
+  };
+
+  const attachImportedVariant = (sticker: Sticker, variant: StickerVariant): Sticker => {
+    const picked = applyVariant(sticker, [...sticker.variants, variant], sticker.variants.length);
+    return recordVersion(picked, 'imported', { prompt: '', feedback: undefined, transparencyOptions: variant.transparencyOptions });
+  };
+
+  const handleImportImages = async (removeBackground: boolean) => {
+    if (!pendingImageImport) {
+        return;
+    }
+    const { files, target } = pendingImageImport;
+    setPendingImageImport(null);
+    // A file that cannot be read is left out; the others still come in
+    const results = await Promise.allSettled(files.map(file => createImportedVariant(file, removeBackground)));
+    const imported = results.flatMap((result, index) => {
+        if (result.status === 'rejected') {
+            console.error('Failed to import image', files[index].name, result.reason);
+            return [];
+        }
+        return [{ file: files[index], variant: result.value }];
+    });
+    const importError = imported.length < files.length ? t('errorImportImage') : null;
+    if (imported.length === 0) {
+        setError(importError);
+        return;
+    }
+
+    if (target.stickerId) {
+        setStickers(prev => prev.map(s => (s.id === target.stickerId && !isStickerBusy(s) ? attachImportedVariant(s, imported[0].variant) : s)));
+        setError(importError);
+        return;
+    }
+
+    // Each file becomes a custom expression named after the file
+    const taken = new Set(expressions.map(e => getExpressionDisplayLabel(e).toLowerCase()));
+    const added = imported.map(({ file, variant }) => {
+        const baseLabel = file.name.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() || t('importedStickerLabel');
+        let label = baseLabel;
+        for (let copy = 2; taken.has(label.toLowerCase()); copy++) {
+            label = `${baseLabel} ${copy}`;
+        }
+        taken.add(label.toLowerCase());
+        const expression: Expression = {
+            id: crypto.randomUUID(),
+            emoji: target.type === 'expressive' ? '💬' : '🖼️',
+            label,
+            labels: { [language]: label },
+            type: target.type,
+            isDefault: false,
+            category: target.category,
+        };
+        return { expression, sticker: attachImportedVariant(createIdleSticker(expression), variant) };
+    });
+    // The stickers land first so the expression sync keeps their images instead of creating idle ones
+    setStickers(prev => [...prev, ...added.map(item => item.sticker)]);
+    setExpressions(prev => [...prev, ...added.map(item => item.expression)]);
+    setError(importError);
+  };
+
+  const handleOpenPackZip = async (file: File) => {
+    try {
+        const found = await readStickerPackZip(file);
+        if (found.length === 0) {
+            setError(t('errorPackZipEmpty'));
+            return;
+        }
+        setPendingPackZip({ fileName: file.name, matches: matchPackStickers(found, expressions, translations) });
+        setError(null);
+    } catch (err) {
+        console.error('Failed to read sticker pack ZIP', err);
+        setError(t('errorPackZipInvalid'));
+    }
+  };
+
+  const handlePackZipInput = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+        void handleOpenPackZip(file);
+    }
+  };
+
+  // Matched images become a new version of their sticker; the rest come in as new expressions.
+  // Pack images are already finished stickers, so their backgrounds are left alone.
+  const handleImportPackZip = async () => {
+    if (!pendingPackZip) {
+        return;
+    }
+    const { matches } = pendingPackZip;
+    setPendingPackZip(null);
+    let variants: StickerVariant[];
+    try {
+        variants = await Promise.all(matches.map(match => createImportedVariant(match.image, false)));
+    } catch (err) {
+        console.error('Failed to import sticker pack ZIP', err);
+        setError(t('errorPackZipInvalid'));
+        return;
+    }
+
+    const nextCategories = [...categories];
+
+    const taken = new Set(expressions.map(e => getExpressionDisplayLabel(e).toLowerCase()));
+    const updates = new Map<string, StickerVariant>();
+    const added: { expression: Expression; sticker: Sticker }[] = [];
+    matches.forEach((match, index) => {
+        if (match.expressionId) {
+            updates.set(match.expressionId, variants[index]);
+            return;
+        }
+        const baseLabel = getPackText(match.entry.labels, language) || t('importedStickerLabel');
+        let label = baseLabel;
+        for (let copy = 2; taken.has(label.toLowerCase()); copy++) {
+            label = `${baseLabel} ${copy}`;
+        }
+        taken.add(label.toLowerCase());
+        const expression: Expression = {
+            id: crypto.randomUUID(),
+            emoji: match.entry.emoji,
+            label,
+            labels: label === baseLabel && Object.keys(match.entry.labels).length ? match.entry.labels : { [language]: label },
+            type: match.entry.type,
+            isDefault: false,
+            exclusions: match.entry.exclusions,
+            promptNotes: match.entry.notes,
+            category: resolveCategoryId(nextCategories, match.entry.category),
+        };
+        added.push({ expression, sticker: attachImportedVariant(createIdleSticker(expression), variants[index]) });
+    });
+
+    setCategories(nextCategories);
+    setStickers(prev => [
+        ...prev.map(s => (updates.has(s.id) && !isStickerBusy(s) ? attachImportedVariant(s, updates.get(s.id)!) : s)),
+        ...added.map(item => item.sticker),
+    ]);
+    if (added.length) {
+        setExpressions(prev => [...prev, ...added.map(item => item.expression)]);
+    }
+    setError(null);
+  };
+
+  const handleMoveExpression = (id: string, sectionId: string, beforeId: string | null) => {
+    setExpressions(prev => moveExpression(prev, categories, id, sectionId, beforeId));
+  };
+
+  const handleStepExpression = (id: string, direction: 1 | -1) => {
+    setExpressions(prev => stepExpression(prev, categories, id, direction));
+  };
+
+  const handleToggleSection = (sectionId: string) => {
+    setCollapsedSections(prev => (prev.includes(sectionId) ? prev.filter(id => id !== sectionId) : [...prev, sectionId]));
+  };
 
-        if (imageFile) {
-            event.preventDefault();
+  const handleAddCategory = (name: string) => {
+    setCategories(prev => [...prev, { id: crypto.randomUUID(), name }]);
+  };
 
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                const imageDataUrl = reader.result as string;
-                if (imageDataUrl) {
-                    setOriginalFilename(`pasted-image-${Date.now()}.png`);
-                    setImageToCrop(imageDataUrl);
-                    setCropModalOpen(true);
-                    setSourceModalOpen(false); // Close modal if open
-                }
-            };
-            reader.readAsDataURL(imageFile);
-        }
-    };
+  const handleRenameCategory = (id: string, name: string) => {
+    setCategories(prev => prev.map(c => (c.id === id ? { ...c, name } : c)));
+  };
 
-    document.addEventListener('paste', handlePaste);
+  // Stickers of a deleted section go back to the built-in section for their type
+  const handleRemoveCategory = (id: string) => {
+    setCategories(prev => prev.filter(c => c.id !== id));
+    setCollapsedSections(prev => prev.filter(sectionId => sectionId !== id));
+    setExpressions(prev => prev.map(e => (e.category === id ? { ...e, category: undefined } : e)));
+  };
+
+  // Replacing drops every sticker that is not in the pack, so it asks first
+  const handleApplyExpressionPack = (pack: ExpressionPack, mode: ExpressionPackImportMode) => {
+    if (mode === 'replace' && !window.confirm(t('confirmReplaceExpressions'))) {
+        return null;
+    }
+    const result = applyExpressionPack(pack, mode, { expressions, categories }, translations);
+    setExpressions(result.expressions);
+    setCategories(result.categories);
+    return result;
+  };
+
+  // A shared link is only offered once the saved session is loaded, so merging sees the user's own list
+  useEffect(() => {
+    if (!isInitialized || !sharedList) {
+        return;
+    }
+    let cancelled = false;
+    decodeSharedList(sharedList)
+        .then(pack => {
+            if (!cancelled) setIncomingSharedList(pack);
+        })
+        .catch(err => {
+            console.error('Failed to read shared list', err);
+            if (!cancelled) setError(t('sharedListInvalid'));
+        })
+        .finally(() => {
+            if (!cancelled) onSharedListHandled();
+        });
     return () => {
-        document.removeEventListener('paste', handlePaste);
+        cancelled = true;
     };
-  }, []);
+  }, [isInitialized, sharedList]);
 
-  const handleAddExpression = (newExpression: { emoji: string; label: string }, type: ExpressionType) => {
-    if (!expressions.some(e => e.label.toLowerCase() === newExpression.label.toLowerCase())) {
-        const finalEmoji = type === 'expressive' && !newExpression.emoji ? '💬' : newExpression.emoji;
-        const expressionToAdd: Expression = { ...newExpression, emoji: finalEmoji, type, isDefault: false };
-        setExpressions(prev => [...prev, expressionToAdd]);
-        setError(null);
-    } else {
-        setError(t('errorExpressionExists', { label: newExpression.label }));
+  const createShareLink = async () =>
+    buildShareUrl(await encodeSharedList(createExpressionPack(t('packDefaultName'), getArrangedOrder(expressions, categories), categories, translations)));
+
+  const handleLoadSharedList = (mode: ExpressionPackImportMode) => {
+    if (incomingSharedList && handleApplyExpressionPack(incomingSharedList, mode)) {
+        setIncomingSharedList(null);
     }
-    setExpressionTypeToAdd(null);
   };
 
-  const handleRemoveExpression = (labelToRemove: string) => {
-    setExpressions(prev => prev.filter(e => e.label !== labelToRemove));
+  const handleExportExpressionPack = (name: string) => {
+    const pack = createExpressionPack(name, getArrangedOrder(expressions, categories), categories, translations);
+    const blob = new Blob([serializeExpressionPack(pack)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    downloadImage(url, `${name.replace(/\s+/g, '_')}.stickerpack.json`);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRemoveExpression = (idToRemove: string) => {
+    cancelStickerJobs(idToRemove);
+    setExpressions(prev => prev.filter(e => e.id !== idToRemove));
+  };
+
+  // The copy sits right after the original and starts with the original's images, so it can be refined separately.
+  const handleDuplicateExpression = (id: string) => {
+    const source = expressions.find(e => e.id === id);
+    if (!source) {
+        return;
+    }
+    const copy: Expression = { ...source, id: crypto.randomUUID() };
+    const sourceSticker = stickers.find(s => s.id === id);
+    if (sourceSticker) {
+        const isBusy = sourceSticker.status === 'queued' || sourceSticker.status === 'running' || sourceSticker.status === 'retrying';
+        const copiedSticker: Sticker = isBusy
+            ? createIdleSticker(copy)
+            : { ...sourceSticker, ...copy, attempt: undefined };
+        setStickers(prev => {
+            const index = prev.findIndex(s => s.id === id);
+            return [...prev.slice(0, index + 1), copiedSticker, ...prev.slice(index + 1)];
+        });
+    }
+    setExpressions(prev => {
+        const index = prev.findIndex(e => e.id === id);
+        return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
   };
 
   const handleFileSelect = (e: ChangeEvent<HTMLInputElement>) => {
@@ -1795,6 +4804,11 @@ const StickerAppPage = ({ onNavigateHome }: { onNavigateHome: () => void }) => {
   };
 
   const handleCropSave = (croppedImage: { dataUrl: string; width: number; height: number; }) => {
+    // Stickers from the old photo are reset below, so its jobs must not finish onto them
+    if (!confirmStopGeneration()) {
+      setCropModalOpen(false);
+      return;
+    }
     const byteSize = getDataUrlByteSize(croppedImage.dataUrl);
     setUserImage({
       data: croppedImage.dataUrl,
@@ -1803,172 +4817,485 @@ const StickerAppPage = ({ onNavigateHome }: { onNavigateHome: () => void }) => {
       height: croppedImage.height,
       byteSize,
     });
-    setStickers(expressions.map(e => ({ ...e, imageUrl: null, originalImageUrl: null, status: 'idle' as const, imageMeta: null, errorMessage: undefined })));
+    setStickers(expressions.map(createIdleSticker));
     setError(null);
     setCropModalOpen(false);
   };
 
+  const handleStyleReferenceSelect = (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      setError(t('errorInvalidFile'));
+      return;
+    }
+    const reader = new FileReader();
+    reader.onloadend = async () => {
+      try {
+        // Stored with the session, so keep it at sticker size rather than the full upload
+        const normalized = await normalizeImageSize(reader.result as string, MAX_STICKER_DIMENSION);
+        setStyleReference({
+          data: normalized.dataUrl,
+          mimeType: getDataUrlMimeType(normalized.dataUrl),
+          width: normalized.width,
+          height: normalized.height,
+          byteSize: getDataUrlByteSize(normalized.dataUrl),
+        });
+        setError(null);
+      } catch (err) {
+        console.error('Failed to load style reference', err);
+        setError(t('errorInvalidFile'));
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
   const handleCropCancel = () => {
     setCropModalOpen(false);
     setImageToCrop(null);
   };
 
-  const handleSaveTransparency = (label: string, newImageUrl: string) => {
+  const handleSaveTransparency = (id: string, newImageUrl: string, options: TransparencyOptions) => {
     const newByteSize = getDataUrlByteSize(newImageUrl);
     setStickers(prev => prev.map(s => {
-      if (s.label !== label) {
+      if (s.id !== id) {
         return s;
       }
       const existingMeta = s.imageMeta;
       const updatedMeta = existingMeta
         ? { ...existingMeta, byteSize: newByteSize || existingMeta.byteSize }
         : null;
-      return { ...s, imageUrl: newImageUrl, imageMeta: updatedMeta };
+      const variants = s.variants.map((variant, index) => index === s.selectedVariant
+        ? { ...variant, imageUrl: newImageUrl, imageMeta: updatedMeta ?? variant.imageMeta, error: undefined }
+        : variant);
+      const updated: Sticker = { ...s, variants, imageUrl: newImageUrl, imageMeta: updatedMeta, status: 'done', error: undefined };
+      return recordVersion(updated, 'transparency', { transparencyOptions: options });
     }));
     setEditingSticker(null);
   };
 
 
-  const generateSticker = async (expression: Expression, regenerationInfo?: { feedback: string; stickerToRegenerate: Sticker }) => {
-    if (!userImage) return;
-
-    setStickers(prev => prev.map(s => s.label === expression.label ? { ...s, status: 'loading' as const, imageMeta: null, errorMessage: undefined } : s));
-    
-    const contentParts: ({ inlineData: { data: string; mimeType: string; }; } | { text: string; })[] = [];
+  const buildGenerationRequest = (
+    expression: Expression,
+    regenerationInfo?: { feedback: string; feedbackHistory: string[]; baseImageUrl: string },
+    templates?: PromptTemplates
+  ) => {
+    const sources: { role: GenerationPartRole; dataUrl: string; mimeType: string }[] = [];
 
     // Always add the base character photo
-    contentParts.push({ inlineData: { data: dataUrlToBase64(userImage.data), mimeType: userImage.mimeType } });
+    if (userImage) {
+        sources.push({ role: 'identity', dataUrl: userImage.data, mimeType: userImage.mimeType });
+    }
+
+    // The optional style reference comes second; the prompt refers to the images by position
+    if (styleReference) {
+        sources.push({ role: 'styleReference', dataUrl: styleReference.data, mimeType: styleReference.mimeType });
+    }
 
     // If regenerating, also add the sticker image that needs to be edited
-    if (regenerationInfo?.stickerToRegenerate?.imageUrl) {
-        contentParts.push({
-            inlineData: {
-                data: dataUrlToBase64(regenerationInfo.stickerToRegenerate.imageUrl),
-                mimeType: 'image/png' // It's always a PNG after our processing
-            }
+    if (regenerationInfo?.baseImageUrl) {
+        sources.push({
+            role: 'baseSticker',
+            dataUrl: regenerationInfo.baseImageUrl,
+            mimeType: 'image/png' // It's always a PNG after our processing
         });
     }
 
-    try {
-        const prompt = generatePrompt(
-            expression,
-            artisticStyle,
+    const prompt = generatePrompt(
+        expression,
+        {
+            style: resolveArtisticStyle(artisticStyle, customStyles),
+            hasStyleReference: Boolean(styleReference),
+            captionLanguage: language,
             transparentBackground,
             backgroundColor,
-            translations,
-            regenerationInfo?.feedback
-        );
-        contentParts.push({ text: prompt });
-        
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts: contentParts },
-            config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-        });
-        
-        const imagePart = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-        if (imagePart?.inlineData) {
-            const baseMime = imagePart.inlineData.mimeType || 'image/png';
-            const rawImageUrl = `data:${baseMime};base64,${imagePart.inlineData.data}`;
-            const { dataUrl: constrainedOriginal, width, height } = await normalizeImageSize(rawImageUrl, MAX_STICKER_DIMENSION);
-            let processedImageUrl = constrainedOriginal;
-
-            if (transparentBackground) {
-                try {
-                    processedImageUrl = await makeBackgroundTransparent(constrainedOriginal, {
-                        ...DEFAULT_TRANSPARENCY_OPTIONS,
-                        maxDimension: MAX_STICKER_DIMENSION,
-                    });
-                } catch (processError) {
-                    console.warn(`Could not process image for transparency, falling back to original.`, processError);
-                }
-            }
+            exclusions,
+        },
+        translations,
+        regenerationInfo && { feedback: regenerationInfo.feedback, history: regenerationInfo.feedbackHistory },
+        templates
+    );
+
+    return {
+        prompt,
+        parts: sources.map(source => ({ data: dataUrlToBase64(source.dataUrl), mimeType: source.mimeType })),
+        inspectedParts: sources.map(source => ({
+            role: source.role,
+            mimeType: source.mimeType,
+            byteSize: getDataUrlByteSize(source.dataUrl),
+            previewUrl: source.dataUrl,
+        })),
+    };
+  };
 
-            const finalByteSize = getDataUrlByteSize(processedImageUrl);
-            const imageMeta: ImageMeta = { width, height, byteSize: finalByteSize };
+  // Provider errors propagate to the caller (usually the queue, which decides whether to retry).
+  const produceVariant = async (
+    expression: Expression,
+    request: { prompt: string; parts: GenerationInputPart[] },
+    seed: number,
+    signal: AbortSignal,
+    feedback?: string
+  ): Promise<StickerVariant> => {
+    const { prompt } = request;
+    const transparencyOptions: TransparencyOptions = { ...DEFAULT_TRANSPARENCY_OPTIONS, maxDimension: MAX_STICKER_DIMENSION };
+    const response = await getImageProvider(providerId).generateImage({ parts: request.parts, prompt, options: { signal, seed } });
+    if (!response.image) {
+        console.warn(`No image generated for: ${expression.label}`, response);
+        throw getEmptyResultError(response);
+    }
 
-            setStickers(prev => prev.map(s => s.label === expression.label ? { ...s, imageUrl: processedImageUrl, originalImageUrl: constrainedOriginal, status: 'done' as const, imageMeta } : s));
-        } else {
-            console.warn(`No image generated for: ${expression.label}`, response);
-            let errorMessage = t('errorGenericGeneration');
-            const candidate = response.candidates?.[0];
-            if (candidate) {
-                if (candidate.finishReason === 'SAFETY') {
-                    errorMessage = t('errorSafety');
-                } else if (candidate.finishReason === 'RECITATION') {
-                    errorMessage = t('errorRecitation');
-                }
-            } else if (response.promptFeedback?.blockReason) {
-                errorMessage = t('errorSafety');
+    const rawImageUrl = `data:${response.image.mimeType};base64,${response.image.data}`;
+    let normalized: Awaited<ReturnType<typeof normalizeImageSize>>;
+    try {
+        normalized = await normalizeImageSize(rawImageUrl, MAX_STICKER_DIMENSION);
+    } catch (decodeError) {
+        throw new GenerationError('imageDecode', response.image.mimeType, { cause: decodeError });
+    }
+    const { dataUrl: constrainedOriginal, width, height } = normalized;
+    let processedImageUrl = constrainedOriginal;
+    let transparencyError: GenerationError | null = null;
+
+    if (transparentBackground) {
+        try {
+            processedImageUrl = await makeBackgroundTransparent(constrainedOriginal, transparencyOptions);
+        } catch (processError) {
+            console.warn(`Could not process image for transparency, keeping the original.`, processError);
+            transparencyError = new GenerationError('transparency', String(processError));
+        }
+    }
+
+    return {
+        imageUrl: processedImageUrl,
+        originalImageUrl: constrainedOriginal,
+        imageMeta: { width, height, byteSize: getDataUrlByteSize(processedImageUrl) },
+        prompt,
+        feedback,
+        transparencyOptions: transparentBackground ? transparencyOptions : null,
+        error: transparencyError ? toStickerError(transparencyError) : undefined,
+    };
+  };
+
+  // Rounds by sticker id, and by the ids of their jobs
+  const variantRoundsRef = useRef(new Map<string, VariantRound>());
+  const variantJobsRef = useRef(new Map<string, VariantRound>());
+
+  // Every variant is its own job, so variants share the queue's concurrency and backoff
+  const queueSticker = (expression: Expression, regenerationInfo?: RegenerationInfo) => {
+    if (!userImage) return;
+
+    cancelStickerJobs(expression.id);
+    const request = buildGenerationRequest(expression, regenerationInfo);
+    const seedBase = stickers.find(s => s.id === expression.id)?.variants.length ?? 0;
+    const seeds = Array.from({ length: variantsPerSticker }, (_, index) => seedBase + index);
+    setPromptInspections(prev => ({
+        ...prev,
+        [expression.id]: { prompt: request.prompt, parts: request.inspectedParts, providerId, seeds, createdAt: Date.now() },
+    }));
+
+    const jobIds = seeds.map(() => crypto.randomUUID());
+    const round: VariantRound = {
+        stickerId: expression.id,
+        jobs: new Map(jobIds.map(jobId => [jobId, 'queued'])),
+        variants: [],
+        regenerationInfo,
+    };
+    variantRoundsRef.current.set(expression.id, round);
+    jobIds.forEach(jobId => variantJobsRef.current.set(jobId, round));
+    seeds.forEach((seed, index) => {
+        generationQueue.add(jobIds[index], async (signal) => {
+            const variant = await produceVariant(expression, request, seed, signal, regenerationInfo?.feedback);
+            if (!signal.aborted) {
+                round.variants[index] = variant;
             }
-            setStickers(prev => prev.map(s => s.label === expression.label ? { ...s, status: 'error' as const, imageMeta: null, errorMessage } : s));
+        });
+    });
+  };
+
+  const cancelStickerJobs = (stickerId: string) => {
+    const round = variantRoundsRef.current.get(stickerId);
+    if (round) {
+        [...round.jobs.keys()].forEach(jobId => generationQueue.cancelJob(jobId));
+    }
+  };
+
+  const finishRound = (round: VariantRound) => {
+    round.jobs.forEach((_, jobId) => variantJobsRef.current.delete(jobId));
+    if (variantRoundsRef.current.get(round.stickerId) === round) {
+        variantRoundsRef.current.delete(round.stickerId);
+    }
+    const { regenerationInfo } = round;
+    const produced = round.variants.filter((variant): variant is StickerVariant => Boolean(variant));
+
+    setStickers(prev => prev.map(s => {
+        if (s.id !== round.stickerId) {
+            return s;
+        }
+        // A cancelled run keeps nothing, as if it never started
+        if ([...round.jobs.values()].includes('cancelled')) {
+            return s.variants.length
+                ? { ...applyVariant(s, s.variants, s.selectedVariant), attempt: undefined }
+                : { ...s, status: 'idle' as const, attempt: undefined };
+        }
+        if (produced.length === 0) {
+            return { ...s, status: 'error' as const, imageMeta: null, error: toStickerError(round.error), attempt: undefined };
         }
-    } catch(err) {
-        console.error(`Error generating sticker for ${expression.label}:`, err);
-        const errorMessage = t('errorNetwork');
-        setStickers(prev => prev.map(s => s.label === expression.label ? { ...s, status: 'error' as const, imageMeta: null, errorMessage } : s));
+        // New candidates join the existing ones; the first new one becomes the pick.
+        // A failed background removal still keeps the image so it can be fixed in the editor.
+        const variants = [...s.variants, ...produced];
+        const picked = applyVariant(s, variants, s.variants.length);
+        const versioned = recordVersion(picked, regenerationInfo ? 'regenerated' : 'generated', {
+            prompt: produced[0].prompt,
+            feedback: produced[0].feedback,
+            transparencyOptions: produced[0].transparencyOptions,
+        });
+        const refinements = regenerationInfo
+            ? versioned.refinements.map(turn => turn.id === regenerationInfo.turnId
+                ? { ...turn, resultVersionId: versioned.currentVersionId }
+                : turn)
+            : versioned.refinements;
+        return { ...versioned, refinements, attempt: undefined };
+    }));
+  };
+
+  const handleJobUpdate = (jobId: string, update: QueueJobUpdate) => {
+    const round = variantJobsRef.current.get(jobId);
+    if (!round) {
+        return; // Its round has already finished
     }
+    round.jobs.set(jobId, update.status);
+    if (update.status === 'error') {
+        console.error(`Error generating sticker ${round.stickerId}:`, update.error);
+        round.error ??= update.error;
+    }
+    const statuses = [...round.jobs.values()];
+    const active = ACTIVE_JOB_STATUSES.find(status => statuses.includes(status));
+    if (!active) {
+        finishRound(round);
+        return;
+    }
+    setStickers(prev => prev.map(s => (s.id === round.stickerId
+        ? { ...s, status: active, attempt: update.status === active ? update.attempt : s.attempt, error: undefined }
+        : s)));
   };
 
-  const handleGenerate = async () => {
+  // The queue outlives renders, so it reports through a ref to the latest handler.
+  const jobUpdateRef = useRef(handleJobUpdate);
+  jobUpdateRef.current = handleJobUpdate;
+
+  const queueRef = useRef<JobQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createJobQueue({
+      concurrency: DEFAULT_GENERATION_CONCURRENCY,
+      maxRetries: GENERATION_MAX_RETRIES,
+      baseDelayMs: GENERATION_RETRY_BASE_DELAY_MS,
+      maxDelayMs: GENERATION_RETRY_MAX_DELAY_MS,
+      isRetryable: isAutoRetryableError,
+      onJobUpdate: (id, update) => jobUpdateRef.current(id, update),
+      onActiveChange: (active) => {
+        setIsLoading(active);
+        if (!active) {
+          setIsQueuePaused(false);
+        }
+      },
+    });
+  }
+  const generationQueue = queueRef.current;
+
+  useEffect(() => {
+    generationQueue.setConcurrency(generationConcurrency);
+  }, [generationQueue, generationConcurrency]);
+
+  useEffect(() => () => generationQueue.cancel(), [generationQueue]);
+
+  const handleGenerate = () => {
     if (!userImage) { setError(t('errorUploadFirst')); return; }
     if (expressions.length === 0) { setError(t('errorNeedExpression')); return; }
     
-    setIsLoading(true);
     setError(null);
-    setStickers(expressions.map(e => ({ ...e, imageUrl: null, originalImageUrl: null, status: 'idle' as const, imageMeta: null, errorMessage: undefined })));
+    generationQueue.cancel();
 
-    try {
-      for (const expression of expressions) {
-        await generateSticker(expression);
-      }
-    } catch (err) {
-      console.error('Error during generation process:', err);
-      setError(t('errorMajor'));
-    } finally {
-      setIsLoading(false);
+    for (const expression of expressions) {
+      queueSticker(expression);
+    }
+  };
+
+  const handleTogglePauseQueue = () => {
+    if (generationQueue.isPaused()) {
+      generationQueue.resume();
+      setIsQueuePaused(false);
+    } else {
+      generationQueue.pause();
+      setIsQueuePaused(true);
     }
   };
 
-  const handleConfirmRegeneration = async (label: string, feedback: string) => {
+  const handleCancelQueue = () => {
+    generationQueue.cancel();
+    setIsQueuePaused(false);
+  };
+
+  // Sends one refinement turn. The parent turn's result (or, for a new thread,
+  // the version on screen) is what the model edits.
+  const handleSendRefinement = (id: string, feedback: string, parentTurnId: string | null) => {
     if (!userImage) {
         setError(t('errorUploadFirst'));
         return;
     }
-    const stickerToRegenerate = stickers.find(s => s.label === label);
-    if (!stickerToRegenerate || !stickerToRegenerate.imageUrl) {
-        console.error("Sticker not found or has no image for regeneration:", label);
+    const stickerToRefine = stickers.find(s => s.id === id);
+    if (!stickerToRefine || !stickerToRefine.imageUrl) {
+        console.error("Sticker not found or has no image for regeneration:", id);
+        return;
+    }
+    const expression = expressions.find(e => e.id === id);
+    if (!expression) {
+        console.error("Expression not found for regeneration:", id);
         return;
     }
 
-    setRegeneratingSticker(null); // Close modal
+    const path = getRefinementPath(stickerToRefine.refinements, parentTurnId);
+    const parentTurn = path[path.length - 1];
+    const baseVersionId = parentTurn ? parentTurn.resultVersionId : stickerToRefine.currentVersionId;
+    const baseImageUrl = stickerToRefine.versions.find(v => v.id === baseVersionId)?.imageUrl ?? stickerToRefine.imageUrl;
+    const turn: RefinementTurn = {
+        id: crypto.randomUUID(),
+        parentId: parentTurn?.id ?? null,
+        feedback,
+        baseVersionId,
+        resultVersionId: null,
+        createdAt: Date.now(),
+    };
+
     setError(null);
-    
-    const expression = expressions.find(e => e.label === label);
+    setStickers(prev => prev.map(s => s.id === id ? { ...s, refinements: [...s.refinements, turn] } : s));
+    queueSticker(expression, {
+        feedback,
+        feedbackHistory: path.map(item => item.feedback),
+        baseImageUrl,
+        turnId: turn.id,
+    });
+};
+
+  const handleSelectVariant = (id: string, index: number) => {
+    setStickers(prev => prev.map(s => {
+        if (s.id !== id || !s.variants[index] || index === s.selectedVariant) {
+            return s;
+        }
+        const variant = s.variants[index];
+        return recordVersion(applyVariant(s, s.variants, index), 'variant', {
+            prompt: variant.prompt,
+            feedback: variant.feedback,
+            transparencyOptions: variant.transparencyOptions,
+        });
+    }));
+  };
+
+  const handleRevertVersion = (id: string, versionId: string) => {
+    setStickers(prev => prev.map(s => {
+        const version = s.id === id ? s.versions.find(v => v.id === versionId) : undefined;
+        if (!version) {
+            return s;
+        }
+        // Every version derives from one of the candidates; point the picker back at it.
+        const variantIndex = s.variants.findIndex(v => v.originalImageUrl === version.originalImageUrl);
+        const variants = s.variants.map((variant, index) => index === variantIndex
+            ? { ...variant, imageUrl: version.imageUrl, imageMeta: version.imageMeta, error: undefined }
+            : variant);
+        const restored: Sticker = {
+            ...s,
+            variants,
+            selectedVariant: variantIndex >= 0 ? variantIndex : s.selectedVariant,
+            imageUrl: version.imageUrl,
+            originalImageUrl: version.originalImageUrl,
+            imageMeta: version.imageMeta,
+            status: 'done',
+            error: undefined,
+        };
+        return recordVersion(restored, 'revert', {
+            prompt: version.prompt,
+            feedback: version.feedback,
+            transparencyOptions: version.transparencyOptions,
+            revertedFrom: version.id,
+        });
+    }));
+    setHistorySticker(null);
+  };
+
+  // A rejected key is fixed in the build config or by switching engines; the engine picker is where either starts
+  const handleCheckProvider = () => {
+    providerSelectRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    providerSelectRef.current?.focus();
+  };
+
+  const handleRetrySticker = (id: string) => {
+    if (!userImage) {
+        setError(t('errorUploadFirst'));
+        return;
+    }
+    const expression = expressions.find(e => e.id === id);
     if (!expression) {
-        console.error("Expression not found for regeneration:", label);
+        console.error("Expression not found for retry:", id);
         return;
     }
-    
-    await generateSticker(expression, { feedback, stickerToRegenerate });
-};
+    setError(null);
+    queueSticker(expression);
+  };
+
+  // Every export follows the on-screen arrangement
+  const getExportableStickers = () =>
+    getArrangedOrder<Sticker>(stickers, categories).filter(s => s.imageUrl && s.status === 'done');
+
+  const getExportPrefix = () => (originalFilename ? originalFilename.split('.').slice(0, -1).join('.') : 'my');
+
+  const getEncodeErrorMessage = (err: unknown) =>
+    err instanceof ImageEncodeError && err.reason === 'webpUnsupported' ? t('exportWebpUnsupported') : t('errorEncodeSticker');
+
+  const handleDownloadSticker = async (sticker: Sticker, filename: string) => {
+    if (!sticker.imageUrl) return;
+    try {
+      const encoded = await encodeStickerImage(sticker.imageUrl, encodeSettings);
+      const url = URL.createObjectURL(encoded.blob);
+      downloadImage(url, `${filename}.${encoded.extension}`);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to encode sticker for download', err);
+      setError(getEncodeErrorMessage(err));
+    }
+  };
 
-  const handleDownloadAll = () => {
+  const handleDownloadAll = async () => {
     const zip = new JSZip();
-    const generatedStickers = stickers.filter(s => s.imageUrl && s.status === 'done');
+    // Numbering keeps the on-screen order in file browsers too
+    const generatedStickers = getExportableStickers();
+    const numberWidth = String(generatedStickers.length).length;
 
     if (generatedStickers.length === 0) return;
 
-    const prefix = originalFilename ? originalFilename.split('.').slice(0, -1).join('.') : 'my';
+    const prefix = getExportPrefix();
 
-    generatedStickers.forEach(sticker => {
-      const displayLabel = sticker.isDefault ? t(sticker.label) : sticker.label;
-      const filename = `${prefix}_${displayLabel.replace(/\s+/g, '_')}.png`;
-      const blob = dataUrlToBlob(sticker.imageUrl!);
-      zip.file(filename, blob);
-    });
+    const usedNames = new Set<string>();
+    const filenames: string[] = [];
+    let oversized = 0;
+    setIsPreparingDownload(true);
+    try {
+      for (const [index, sticker] of generatedStickers.entries()) {
+        const encoded = await encodeStickerImage(sticker.imageUrl!, encodeSettings);
+        if (!encoded.withinBudget) {
+          oversized++;
+        }
+        const displayLabel = getExpressionLabel(sticker, language, t);
+        const position = String(index + 1).padStart(numberWidth, '0');
+        // Duplicated expressions share a label; number the extras instead of overwriting them in the ZIP.
+        const baseName = `${prefix}_${position}_${displayLabel.replace(/\s+/g, '_')}`;
+        let filename = `${baseName}.${encoded.extension}`;
+        for (let copy = 2; usedNames.has(filename); copy++) {
+          filename = `${baseName}_${copy}.${encoded.extension}`;
+        }
+        usedNames.add(filename);
+        filenames.push(filename);
+        zip.file(filename, encoded.blob);
+      }
+      // Lets "Open sticker ZIP" put every file back on the right expression
+      zip.file(STICKER_PACK_MANIFEST_PATH, createStickerPackManifest(prefix, generatedStickers, filenames, categories, translations));
 
-    zip.generateAsync({ type: 'blob' }).then(content => {
+      const content = await zip.generateAsync({ type: 'blob' });
       const url = URL.createObjectURL(content);
       const link = document.createElement('a');
       link.href = url;
@@ -1977,15 +5304,79 @@ const StickerAppPage = ({ onNavigateHome }: { onNavigateHome: () => void }) => {
       link.click();
       document.body.removeChild(link);
       URL.revokeObjectURL(url);
-    });
+      if (oversized > 0 && encodeSettings.maxBytes !== null) {
+        setError(t('exportPackOversized', { count: String(oversized), limit: formatBytes(encodeSettings.maxBytes) }));
+      }
+    } catch (err) {
+      console.error('Failed to prepare the sticker ZIP', err);
+      setError(getEncodeErrorMessage(err));
+    } finally {
+      setIsPreparingDownload(false);
+    }
+  };
+
+  const handleExportPack = async (platform: StickerExportPlatform, info: StickerPackInfo) => {
+    const exporter = getStickerExporter(platform);
+    if (exporter.needsPublisher) {
+      localStorage.setItem(PACK_PUBLISHER_STORAGE_KEY, info.publisher);
+    }
+    const result = await exporter.build(
+      getExportableStickers().map(sticker => ({ imageUrl: sticker.imageUrl!, emoji: sticker.emoji })),
+      info,
+      encodeSettings
+    );
+    const url = URL.createObjectURL(result.blob);
+    downloadImage(url, `${getExportPrefix()}_${exporter.fileSuffix}.zip`);
+    URL.revokeObjectURL(url);
+    return result;
+  };
+
+  const handleStyleLibraryChange = (styles: ArtisticStyle[]) => {
+    setCustomStyles(styles);
+    // A deleted style can no longer be selected; fall back the same way the prompt would.
+    setArtisticStyle(prev => resolveArtisticStyle(prev, styles).id);
   };
 
+  const handleDeveloperModeChange = (enabled: boolean) => {
+    localStorage.setItem(DEVELOPER_MODE_STORAGE_KEY, String(enabled));
+    setDeveloperMode(enabled);
+    if (!enabled) {
+        setInspectingSticker(null);
+    }
+  };
+
+  const renderLabPrompt = (expression: Expression, template: string) =>
+    buildGenerationRequest(expression, undefined, { ...DEFAULT_PROMPT_TEMPLATES, fresh: template }).prompt;
+
+  // Prompt lab runs bypass the queue and never touch the sticker until a result is kept.
+  const runPromptLab = (expression: Expression, template: string, seed: number, signal: AbortSignal) => {
+    if (!userImage) {
+        return Promise.reject(new GenerationError('unknown', t('errorUploadFirst')));
+    }
+    const request = buildGenerationRequest(expression, undefined, { ...DEFAULT_PROMPT_TEMPLATES, fresh: template });
+    return produceVariant(expression, request, seed, signal);
+  };
+
+  const handleKeepLabVariant = (id: string, variant: StickerVariant) => {
+    setStickers(prev => prev.map(s => {
+        if (s.id !== id) {
+            return s;
+        }
+        const variants = [...s.variants, variant];
+        return recordVersion(applyVariant(s, variants, variants.length - 1), 'generated', {
+            prompt: variant.prompt,
+            transparencyOptions: variant.transparencyOptions,
+        });
+    }));
+  };
+
+  // Scoped to the open project: its name and the app-wide settings (grid size, provider, concurrency) are kept
   const handleRestoreDefaults = () => {
     if (!window.confirm(t('confirmRestore'))) {
       return;
     }
 
-    localStorage.removeItem(LOCAL_STORAGE_KEY);
+    generationQueue.cancel();
 
     const defaults = getInitialExpressions();
     setExpressions(defaults);
@@ -1998,21 +5389,26 @@ const StickerAppPage = ({ onNavigateHome }: { onNavigateHome: () => void }) => {
           URL.revokeObjectURL(sticker.originalImageUrl);
         }
       });
-      return defaults.map(e => ({ ...e, imageUrl: null, originalImageUrl: null, status: 'idle' as const, imageMeta: null, errorMessage: undefined }));
+      return defaults.map(createIdleSticker);
     });
 
     setUserImage(null);
     setOriginalFilename(null);
-    setIsLoading(false);
     setError(null);
     setBackgroundColor('#FFFFFF');
     setTransparentBackground(true);
     setImageToCrop(null);
-    setArtisticStyle('Photo-realistic');
-    setGridSize('medium');
+    setArtisticStyle(DEFAULT_ARTISTIC_STYLE_ID);
+    setStyleReference(null);
+    setExclusions('');
+    setCategories([]);
+    setCollapsedSections([]);
     setExpressionTypeToAdd(null);
     setEditingSticker(null);
-    setRegeneratingSticker(null);
+    setRefiningSticker(null);
+    setHistorySticker(null);
+    setInspectingSticker(null);
+    setPromptInspections({});
     setCropModalOpen(false);
     setCameraModalOpen(false);
     setSourceModalOpen(false);
@@ -2022,12 +5418,33 @@ const StickerAppPage = ({ onNavigateHome }: { onNavigateHome: () => void }) => {
   };
 
   const characterImage = userImage;
+  const inspectedSticker = inspectingSticker
+    ? stickers.find(s => s.id === inspectingSticker.id) ?? inspectingSticker
+    : null;
   const hasGeneratedStickers = stickers.some(s => s.imageUrl);
   const hasGenerationStarted = stickers.some(s => s.status !== 'idle');
 
   return (
     <>
-      <Header onAction={onNavigateHome} actionLabelKey="homeButton" />
+      <Header
+        onAction={onNavigateHome}
+        actionLabelKey="homeButton"
+        extra={isInitialized && (
+          <ProjectSwitcher
+            projects={projects}
+            activeProjectId={activeProjectId}
+            activeProjectName={projectName}
+            activeThumbnail={projectThumbnail}
+            onSwitch={(id) => void handleSwitchProject(id)}
+            onCreate={() => void handleNewProject()}
+            onRename={(id, name) => void handleRenameProject(id, name)}
+            onDuplicate={(id) => void handleDuplicateProject(id)}
+            onDelete={(id) => void handleDeleteProject(id)}
+            onExport={() => void handleExportProject()}
+            onImport={(file) => void handleImportProject(file)}
+          />
+        )}
+      />
       <main>
         <input
             type="file"
@@ -2068,10 +5485,52 @@ const StickerAppPage = ({ onNavigateHome }: { onNavigateHome: () => void }) => {
         {expressionTypeToAdd && (
             <AddExpressionModal
                 type={expressionTypeToAdd}
-                onAdd={(newExp) => handleAddExpression(newExp, expressionTypeToAdd)}
+                category={categoryToAdd}
+                categories={categories}
+                onAdd={handleAddExpression}
+                onTranslate={translateExpressionLabel}
                 onClose={() => setExpressionTypeToAdd(null)}
             />
         )}
+        {pendingImageImport && (
+            <ImportImageModal
+                files={pendingImageImport.files}
+                targetLabel={(() => {
+                    const target = stickers.find(s => s.id === pendingImageImport.target.stickerId);
+                    return target ? getExpressionDisplayLabel(target) : null;
+                })()}
+                onImport={(removeBackground) => void handleImportImages(removeBackground)}
+                onClose={() => setPendingImageImport(null)}
+            />
+        )}
+        {isPackExportOpen && (
+            <ExportPackModal
+                stickerCount={getExportableStickers().length}
+                defaultName={projectName}
+                onExport={handleExportPack}
+                onClose={() => setPackExportOpen(false)}
+            />
+        )}
+        {pendingPackZip && (
+            <PackZipImportModal
+                fileName={pendingPackZip.fileName}
+                matches={pendingPackZip.matches}
+                stickers={stickers}
+                onImport={() => void handleImportPackZip()}
+                onClose={() => setPendingPackZip(null)}
+            />
+        )}
+        {editingExpression && (
+            <AddExpressionModal
+                type={editingExpression.type}
+                expression={editingExpression}
+                categories={categories}
+                hasImage={Boolean(editingExpression.imageUrl)}
+                onAdd={(values) => handleUpdateExpression(editingExpression.id, values)}
+                onTranslate={translateExpressionLabel}
+                onClose={() => setEditingExpression(null)}
+            />
+        )}
         {editingSticker && (
             <TransparencyEditorModal
                 sticker={editingSticker}
@@ -2079,11 +5538,65 @@ const StickerAppPage = ({ onNavigateHome }: { onNavigateHome: () => void }) => {
                 onClose={() => setEditingSticker(null)}
             />
         )}
-        {regeneratingSticker && (
-            <RegenerationModal
-                sticker={regeneratingSticker}
-                onRegenerate={handleConfirmRegeneration}
-                onClose={() => setRegeneratingSticker(null)}
+        {refiningSticker && (
+            <RefinementModal
+                sticker={stickers.find(s => s.id === refiningSticker.id) ?? refiningSticker}
+                onSend={handleSendRefinement}
+                onClose={() => setRefiningSticker(null)}
+            />
+        )}
+        {isStyleLibraryOpen && (
+            <StyleLibraryModal
+                customStyles={customStyles}
+                onChange={handleStyleLibraryChange}
+                onClose={() => setStyleLibraryOpen(false)}
+            />
+        )}
+        {inspectedSticker && (
+            <PromptLabModal
+                sticker={inspectedSticker}
+                inspection={promptInspections[inspectedSticker.id] ?? null}
+                templates={labTemplates}
+                onTemplatesChange={setLabTemplates}
+                renderPrompt={(template) => renderLabPrompt(inspectedSticker, template)}
+                onRun={(template, seed, signal) => runPromptLab(inspectedSticker, template, seed, signal)}
+                onKeep={handleKeepLabVariant}
+                onClose={() => setInspectingSticker(null)}
+            />
+        )}
+        {isPacksOpen && (
+            <ExpressionPacksModal
+                onApply={handleApplyExpressionPack}
+                onExport={handleExportExpressionPack}
+                onClose={() => setPacksOpen(false)}
+            />
+        )}
+        {isShareOpen && (
+            <ShareListModal
+                onCreateLink={createShareLink}
+                onClose={() => setShareOpen(false)}
+            />
+        )}
+        {incomingSharedList && (
+            <SharedListModal
+                pack={incomingSharedList}
+                onLoad={handleLoadSharedList}
+                onClose={() => setIncomingSharedList(null)}
+            />
+        )}
+        {isSuggestionsOpen && (
+            <ExpressionSuggestionsModal
+                onRequest={requestExpressionSuggestions}
+                isAdded={(label) => isExpressionLabelTaken(label)}
+                onAdd={handleAddSuggestions}
+                onClose={() => setSuggestionsOpen(false)}
+            />
+        )}
+        {historySticker && (
+            <VersionHistoryModal
+                sticker={stickers.find(s => s.id === historySticker.id) ?? historySticker}
+                onRevert={handleRevertVersion}
+                onClose={() => setHistorySticker(null)}
             />
         )}
 
@@ -2098,6 +5611,26 @@ const StickerAppPage = ({ onNavigateHome }: { onNavigateHome: () => void }) => {
           onTransparentChange={(e) => setTransparentBackground(e.target.checked)}
           artisticStyle={artisticStyle}
           onArtisticStyleChange={(e) => setArtisticStyle(e.target.value)}
+          customStyles={customStyles}
+          onManageStyles={() => setStyleLibraryOpen(true)}
+          styleReference={styleReference}
+          onStyleReferenceSelect={handleStyleReferenceSelect}
+          onStyleReferenceRemove={() => setStyleReference(null)}
+          exclusions={exclusions}
+          onExclusionsChange={(e) => setExclusions(e.target.value)}
+          providerId={providerId}
+          onProviderChange={(e) => isImageProviderId(e.target.value) && setProviderId(e.target.value)}
+          providerSelectRef={providerSelectRef}
+          concurrency={generationConcurrency}
+          onConcurrencyChange={(e) => setGenerationConcurrency(Number(e.target.value))}
+          variantsPerSticker={variantsPerSticker}
+          onVariantsPerStickerChange={(e) => setVariantsPerSticker(Number(e.target.value))}
+          exportFormat={exportFormat}
+          onExportFormatChange={(e) => isStickerEncodeFormat(e.target.value) && setExportFormat(e.target.value)}
+          exportBudgetKb={exportBudgetKb}
+          onExportBudgetChange={(e) => setExportBudgetKb(Number(e.target.value))}
+          isDeveloperMode={isDeveloperMode}
+          onDeveloperModeChange={(e) => handleDeveloperModeChange(e.target.checked)}
           onRestoreDefaults={handleRestoreDefaults}
         />
 
@@ -2116,26 +5649,108 @@ const StickerAppPage = ({ onNavigateHome }: { onNavigateHome: () => void }) => {
                     <button className={`size-toggle-btn ${gridSize === 'medium' ? 'active' : ''}`} onClick={() => setGridSize('medium')} title={t('viewSizeMedium')}>M</button>
                     <button className={`size-toggle-btn ${gridSize === 'large' ? 'active' : ''}`} onClick={() => setGridSize('large')} title={t('viewSizeLarge')}>L</button>
                 </div>
+                {isLoading && (
+                    <div className="queue-controls">
+                        <button className="queue-control-btn" onClick={handleTogglePauseQueue}>
+                            {isQueuePaused ? <PlayIcon /> : <PauseIcon />}
+                            {isQueuePaused ? t('resumeQueueButton') : t('pauseQueueButton')}
+                        </button>
+                        <button className="queue-control-btn cancel" onClick={handleCancelQueue}>
+                            {t('cancelQueueButton')}
+                        </button>
+                    </div>
+                )}
                 <button 
                     className="download-all-button" 
                     onClick={handleDownloadAll}
+                    disabled={!hasGeneratedStickers || isPreparingDownload}
+                >
+                    <DownloadIcon />
+                    {isPreparingDownload ? t('packExporting') : t('downloadAllButton')}
+                </button>
+                <button
+                    className="download-all-button export-pack-button"
+                    onClick={() => setPackExportOpen(true)}
                     disabled={!hasGeneratedStickers}
+                    title={t('exportPackTooltip')}
                 >
                     <DownloadIcon />
-                    {t('downloadAllButton')}
+                    {t('exportPackOpenButton')}
                 </button>
             </div>
         </div>
         )}
 
+        <div className="expression-toolbar">
+            {projectSaveState !== 'idle' && (
+                <span className={`project-save-status ${projectSaveState}`} role="status">
+                    {projectSaveState === 'saving' && t('projectSaving')}
+                    {projectSaveState === 'saved' && (storageEstimate && storageEstimate.quota > 0
+                        ? t('projectSavedWithUsage', { used: formatBytes(storageEstimate.usage), quota: formatBytes(storageEstimate.quota) })
+                        : t('projectSaved'))}
+                    {projectSaveState === 'error' && t('projectSaveFailed')}
+                    {projectSaveState === 'unavailable' && t('projectStorageUnavailable')}
+                </span>
+            )}
+            <button
+                className="suggest-expressions-button"
+                onClick={() => setPacksOpen(true)}
+                title={t('packsTooltip')}
+            >
+                <span aria-hidden="true">📦</span> {t('packsButton')}
+            </button>
+            <button
+                className="suggest-expressions-button"
+                onClick={() => packZipInputRef.current?.click()}
+                title={t('packZipTooltip')}
+            >
+                <span aria-hidden="true">🗂️</span> {t('packZipButton')}
+            </button>
+            <input ref={packZipInputRef} type="file" accept=".zip,application/zip" onChange={handlePackZipInput} style={{ display: 'none' }} />
+            <button
+                className="suggest-expressions-button"
+                onClick={() => setShareOpen(true)}
+                disabled={expressions.length === 0}
+                title={t('shareListTooltip')}
+            >
+                <span aria-hidden="true">🔗</span> {t('shareListButton')}
+            </button>
+            <button
+                className="suggest-expressions-button"
+                onClick={() => setSuggestionsOpen(true)}
+                disabled={!userImage}
+                title={userImage ? t('suggestExpressionsTooltip') : t('errorUploadFirst')}
+            >
+                <span aria-hidden="true">✨</span> {t('suggestExpressionsButton')}
+            </button>
+        </div>
+
         <StickerGrid 
           stickers={stickers} 
+          categories={categories}
+          collapsedSections={collapsedSections}
           originalFilename={originalFilename} 
           gridSize={gridSize}
-          onAddClick={(type) => setExpressionTypeToAdd(type)}
+          onAddClick={handleAddClick}
+          onImportImages={handleRequestImageImport}
           onRemove={handleRemoveExpression} 
           onEdit={setEditingSticker}
-          onRegenerate={setRegeneratingSticker}
+          onRegenerate={setRefiningSticker}
+          onRetry={handleRetrySticker}
+          onSelectVariant={handleSelectVariant}
+          onShowHistory={setHistorySticker}
+          onDuplicate={handleDuplicateExpression}
+          onEditExpression={setEditingExpression}
+          onDownload={handleDownloadSticker}
+          onCheckProvider={handleCheckProvider}
+          onInspect={isDeveloperMode ? setInspectingSticker : undefined}
+          encodedSizes={encodedSizes}
+          onMove={handleMoveExpression}
+          onStep={handleStepExpression}
+          onToggleSection={handleToggleSection}
+          onAddCategory={handleAddCategory}
+          onRenameCategory={handleRenameCategory}
+          onRemoveCategory={handleRemoveCategory}
         />
 
       </main>
@@ -2146,14 +5761,27 @@ const StickerAppPage = ({ onNavigateHome }: { onNavigateHome: () => void }) => {
 
 const App = () => {
     const [page, setPage] = useState<'explainer' | 'app'>('explainer');
+    const [sharedList, setSharedList] = useState<string | null>(null);
 
     useEffect(() => {
-        // Simple routing based on a hash, could be expanded.
-        if (window.location.hash === '#create') {
-            setPage('app');
-        }
+        // Simple routing based on a hash, could be expanded. `#create?list=...` carries a shared expression list.
+        const handleRoute = () => {
+            if (window.location.hash.split('?')[0] === '#create') {
+                setPage('app');
+                setSharedList(readSharedListParam(window.location.hash));
+            }
+        };
+        handleRoute();
+        window.addEventListener('hashchange', handleRoute);
+        return () => window.removeEventListener('hashchange', handleRoute);
     }, []);
 
+    // Drop the list from the address bar so a reload does not offer it again
+    const handleSharedListHandled = () => {
+        setSharedList(null);
+        window.history.replaceState(null, '', '#create');
+    };
+
     const navigateToApp = () => {
         setPage('app');
         window.location.hash = '#create';
@@ -2170,7 +5798,7 @@ const App = () => {
                 {page === 'explainer' ? (
                     <ExplainerPage onNavigate={navigateToApp} />
                 ) : (
-                    <StickerAppPage onNavigateHome={navigateToHome}/>
+                    <StickerAppPage onNavigateHome={navigateToHome} sharedList={sharedList} onSharedListHandled={handleSharedListHandled}/>
                 )}
             </AssetProvider>
         </LanguageProvider>
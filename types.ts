@@ -1,13 +1,69 @@
 export type Language = 'sw' | 'en';
 
-export type StickerStatus = 'idle' | 'loading' | 'done' | 'error';
+export type StickerStatus = 'idle' | 'queued' | 'running' | 'retrying' | 'done' | 'error';
 export type ExpressionType = 'plain' | 'expressive';
 
+export type ExpressionPromptNotes = {
+    pose?: string;
+    props?: string;
+    framing?: string; // Camera framing; takes priority over the style's framing
+};
+
+/** A user-defined section of the sticker grid, such as "Greetings" or "Reactions". */
+export type ExpressionCategory = {
+    id: string;
+    name: string;
+};
+
 export type Expression = {
+    id: string; // Stable across renames, reorders and duplicates
     emoji: string;
-    label: string; // For default: translation key. For custom: literal text.
+    label: string; // For default: translation key. For custom: literal text as first entered.
+    labels?: Partial<Record<Language, string>>; // Custom only: the label per UI language
     type: ExpressionType;
     isDefault: boolean;
+    exclusions?: string; // Comma/newline separated things to keep out of this sticker
+    promptNotes?: ExpressionPromptNotes;
+    category?: string; // ExpressionCategory id; without one the sticker sits in its type's section
+};
+
+/** One expression as written in a pack file. Labels are literal text, never translation keys. */
+export type ExpressionPackEntry = {
+    emoji: string;
+    labels: Partial<Record<Language, string>>;
+    type: ExpressionType;
+    category?: string; // Section name; matched to the user's sections by name on import
+    exclusions?: string;
+    notes?: ExpressionPromptNotes;
+};
+
+/** A shareable, themed list of expressions (e.g. "Eid greetings"). */
+export type ExpressionPack = {
+    id: string;
+    name: Partial<Record<Language, string>>;
+    description?: Partial<Record<Language, string>>;
+    expressions: ExpressionPackEntry[];
+};
+
+export type ExpressionPackImportMode = 'merge' | 'replace';
+
+export type GenerationErrorKind =
+    | 'quotaExceeded'
+    | 'rateLimited'
+    | 'invalidKey'
+    | 'offline'
+    | 'network'
+    | 'serverError'
+    | 'promptBlocked' // The request was rejected before generation
+    | 'imageBlocked' // The generated output was withheld
+    | 'noImage'
+    | 'imageDecode'
+    | 'transparency'
+    | 'unknown';
+
+export type StickerError = {
+    kind: GenerationErrorKind;
+    details?: string; // Raw status/reason for the details disclosure
 };
 
 export type ImageMeta = {
@@ -16,12 +72,52 @@ export type ImageMeta = {
     byteSize: number;
 };
 
+export type StickerVariant = {
+    imageUrl: string;
+    originalImageUrl: string;
+    imageMeta: ImageMeta;
+    prompt: string;
+    feedback?: string;
+    transparencyOptions: TransparencyOptions | null; // null when the background was kept
+    error?: StickerError; // Set when background removal failed for this candidate
+};
+
+export type StickerVersionKind = 'generated' | 'regenerated' | 'variant' | 'transparency' | 'revert' | 'imported';
+
+export type StickerVersion = {
+    id: string;
+    kind: StickerVersionKind;
+    createdAt: number;
+    imageUrl: string;
+    originalImageUrl: string;
+    imageMeta: ImageMeta;
+    prompt: string;
+    feedback?: string;
+    transparencyOptions: TransparencyOptions | null;
+    revertedFrom?: string; // Version id restored by a 'revert' entry
+};
+
+export type RefinementTurn = {
+    id: string;
+    parentId: string | null; // Previous turn on this branch; null for a turn on the starting image
+    feedback: string;
+    baseVersionId: string | null; // Version that was sent to the model for editing
+    resultVersionId: string | null; // Version produced by this turn, once it lands
+    createdAt: number;
+};
+
 export type Sticker = Expression & {
-    imageUrl: string | null; // The final image to display/download
+    imageUrl: string | null; // The final image to display/download (mirrors the selected variant)
     originalImageUrl: string | null; // The raw image from the AI, for reprocessing
     status: StickerStatus;
     imageMeta: ImageMeta | null;
-    errorMessage?: string;
+    variants: StickerVariant[]; // Every candidate generated this session, oldest first
+    selectedVariant: number; // Index into variants; -1 when there are none
+    versions: StickerVersion[]; // Every image the sticker has displayed, oldest first
+    currentVersionId: string | null;
+    refinements: RefinementTurn[]; // Feedback turns in the order they were sent; parentId forms branches
+    error?: StickerError;
+    attempt?: number; // Current attempt while queued/running/retrying
 };
 
 export type TransparencyOptions = {
@@ -42,4 +138,172 @@ export type TransparencySeed = {
     force?: boolean;
 };
 
-export type Translations = Partial<Record<Language, Record<string, string>>>;
\ No newline at end of file
+export type Translations = Partial<Record<Language, Record<string, string>>>;
+
+export type ArtisticStyle = {
+    id: string;
+    name: Record<Language, string>; // Display name per UI language
+    nameKey?: string; // Built-in styles are named through translations.json instead
+    instruction: string; // Completes "The artistic style MUST be ..."
+    framing?: string; // Replaces the default per-type framing sentence
+    outline?: string; // Replaces the default double-outline instruction
+    builtIn?: boolean;
+};
+
+export type ReferenceImage = {
+    data: string; // Data URL, already downscaled to sticker size
+    mimeType: string;
+    width: number;
+    height: number;
+    byteSize: number;
+};
+
+/** The cropped character photo every sticker is generated from. */
+export type CharacterImage = {
+    data: string; // Data URL
+    mimeType: string;
+    width: number;
+    height: number;
+    byteSize: number;
+};
+
+/** Look settings that belong to one character rather than to the whole app. */
+export type ProjectSettings = {
+    artisticStyle: string; // ArtisticStyle id
+    exclusions: string;
+    backgroundColor: string;
+    transparentBackground: boolean;
+};
+
+/**
+ * One character and everything made for it, kept in IndexedDB rather than localStorage.
+ * Data URLs are swapped for image-store references when written.
+ */
+export type StoredProject = {
+    id: string;
+    version: number;
+    name: string;
+    updatedAt: number;
+    thumbnail: string | null; // Small data URL of the photo, stored inline for the project switcher
+    userImage: CharacterImage | null;
+    originalFilename: string | null;
+    styleReference: ReferenceImage | null;
+    expressions: Expression[];
+    categories: ExpressionCategory[];
+    collapsedSections: string[];
+    settings: ProjectSettings;
+    stickers: Sticker[];
+};
+
+export type ProjectSummary = {
+    id: string;
+    name: string;
+    updatedAt: number;
+    thumbnail: string | null;
+    stickerCount: number; // Stickers that have an image
+};
+
+export type StorageEstimate = {
+    usage: number; // Bytes used by this origin
+    quota: number; // Bytes the browser is willing to give it
+};
+
+export type PromptSettings = {
+    style: ArtisticStyle;
+    hasStyleReference: boolean; // A style source image is sent after the character photo
+    captionLanguage: Language; // Language of the text drawn on expressive stickers
+    transparentBackground: boolean;
+    backgroundColor: string;
+    exclusions: string; // Pack-wide negative prompt, comma/newline separated
+};
+
+export type PromptTemplates = {
+    fresh: string; // First generation of a sticker
+    refinement: string; // Editing an existing sticker from feedback
+};
+
+export type PromptRefinement = {
+    feedback: string;
+    history: string[]; // Earlier feedback on the same branch, oldest first
+};
+
+export type ImageProviderId = 'gemini' | 'local';
+
+export type GenerationInputPart = {
+    data: string; // Base64 payload without the data URL prefix
+    mimeType: string;
+};
+
+export type GenerationOptions = {
+    model?: string;
+    signal?: AbortSignal;
+    seed?: number; // Distinguishes candidates generated for the same prompt
+};
+
+export type GenerationRequest = {
+    parts: GenerationInputPart[];
+    prompt: string;
+    options?: GenerationOptions;
+};
+
+export type ExpressionSuggestion = {
+    emoji: string;
+    label: string; // In the language that was requested
+    type: ExpressionType;
+};
+
+export type ExpressionSuggestionRequest = {
+    image: GenerationInputPart; // The cropped character photo
+    language: Language;
+    existingLabels: string[]; // Display labels already in the pack, to steer away from repeats
+    count: number;
+    signal?: AbortSignal;
+};
+
+/** Text backend that looks at the character and proposes expressions for the pack. */
+export interface ExpressionSuggester {
+    id: ImageProviderId;
+    suggestExpressions: (request: ExpressionSuggestionRequest) => Promise<ExpressionSuggestion[]>;
+}
+
+export type LabelTranslationRequest = {
+    text: string;
+    from: Language;
+    to: Language;
+    signal?: AbortSignal;
+};
+
+/** Text backend that fills in the missing language of a custom expression label. */
+export interface LabelTranslator {
+    id: ImageProviderId;
+    translateLabel: (request: LabelTranslationRequest) => Promise<string>;
+}
+
+export type GenerationPartRole = 'identity' | 'styleReference' | 'baseSticker';
+
+/** What was (or would be) sent to the provider for one sticker, for the developer inspector. */
+export type PromptInspection = {
+    prompt: string;
+    parts: { role: GenerationPartRole; mimeType: string; byteSize: number; previewUrl: string }[];
+    providerId: ImageProviderId;
+    seeds: number[];
+    createdAt: number;
+};
+
+export type GenerationUsage = {
+    promptTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+};
+
+export type GenerationResult = {
+    image: GenerationInputPart | null;
+    finishReason?: string; // e.g. 'STOP', 'SAFETY', 'RECITATION'
+    blockReason?: string; // Set when the prompt itself was rejected
+    usage: GenerationUsage | null;
+};
+
+export interface ImageProvider {
+    id: ImageProviderId;
+    generateImage: (request: GenerationRequest) => Promise<GenerationResult>;
+}
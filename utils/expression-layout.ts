@@ -0,0 +1,90 @@
+import type { Expression, ExpressionCategory, ExpressionType } from '../types';
+
+/**
+ * A visible section of the sticker grid. Expressions without a (still existing) user
+ * category fall back to the built-in section for their type, whose id is the type itself.
+ */
+export type ExpressionSection<T extends Expression> = {
+    id: string;
+    type?: ExpressionType; // Built-in sections only
+    category?: ExpressionCategory; // User sections only
+    items: T[];
+};
+
+const BUILT_IN_SECTION_TYPES: ExpressionType[] = ['plain', 'expressive'];
+
+const isCategoryId = (id: string | undefined, categories: ExpressionCategory[]): id is string =>
+    Boolean(id) && categories.some(category => category.id === id);
+
+export const getSectionId = (expression: Expression, categories: ExpressionCategory[]): string =>
+    isCategoryId(expression.category, categories) ? expression.category : expression.type;
+
+/** Groups expressions into sections; within a section they keep their array order. */
+export const arrangeIntoSections = <T extends Expression>(items: T[], categories: ExpressionCategory[]): ExpressionSection<T>[] => [
+    ...BUILT_IN_SECTION_TYPES.map(type => ({
+        id: type,
+        type,
+        items: items.filter(item => getSectionId(item, categories) === type),
+    })),
+    ...categories.map(category => ({
+        id: category.id,
+        category,
+        items: items.filter(item => getSectionId(item, categories) === category.id),
+    })),
+];
+
+/** The order the user sees on screen, which is also the export order. */
+export const getArrangedOrder = <T extends Expression>(items: T[], categories: ExpressionCategory[]): T[] =>
+    arrangeIntoSections<T>(items, categories).flatMap(section => section.items);
+
+/** Built-in sections only hold their own type, since the type changes the prompt. */
+export const canMoveToSection = (expression: Expression, sectionId: string, categories: ExpressionCategory[]): boolean =>
+    isCategoryId(sectionId, categories) || sectionId === expression.type;
+
+/**
+ * Moves an expression into a section, in front of `beforeId` or, without one, after the
+ * section's last member. Returns the original array when the move is not allowed.
+ */
+export const moveExpression = <T extends Expression>(
+    items: T[],
+    categories: ExpressionCategory[],
+    id: string,
+    sectionId: string,
+    beforeId: string | null
+): T[] => {
+    const moving = items.find(item => item.id === id);
+    if (!moving || id === beforeId || !canMoveToSection(moving, sectionId, categories)) {
+        return items;
+    }
+    const moved: T = { ...moving, category: isCategoryId(sectionId, categories) ? sectionId : undefined };
+    const rest = items.filter(item => item.id !== id);
+    let index = beforeId ? rest.findIndex(item => item.id === beforeId) : -1;
+    if (index < 0) {
+        const lastInSection = rest.map(item => getSectionId(item, categories)).lastIndexOf(sectionId);
+        index = lastInSection >= 0 ? lastInSection + 1 : rest.length;
+    }
+    return [...rest.slice(0, index), moved, ...rest.slice(index)];
+};
+
+/** Swaps an expression with its neighbour in the same section (keyboard reordering). */
+export const stepExpression = <T extends Expression>(
+    items: T[],
+    categories: ExpressionCategory[],
+    id: string,
+    direction: 1 | -1
+): T[] => {
+    const moving = items.find(item => item.id === id);
+    if (!moving) {
+        return items;
+    }
+    const sectionId = getSectionId(moving, categories);
+    const siblings = items.filter(item => getSectionId(item, categories) === sectionId);
+    const target = siblings[siblings.indexOf(moving) + direction];
+    if (!target) {
+        return items;
+    }
+    const next = [...items];
+    next[items.indexOf(moving)] = target;
+    next[items.indexOf(target)] = moving;
+    return next;
+};
@@ -0,0 +1,198 @@
+import type {
+    Expression, ExpressionCategory, ExpressionPack, ExpressionPackEntry, ExpressionPackImportMode,
+    ExpressionPromptNotes, Language, Translations,
+} from '../types';
+import { getExpressionLabelIn } from './prompt-generator';
+
+const EXPRESSION_PACK_FORMAT = 'stickerme-expression-pack';
+const EXPRESSION_PACK_FORMAT_VERSION = 1;
+export const PACK_LANGUAGES: Language[] = ['sw', 'en'];
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const optionalString = (value: unknown): string | undefined => (isNonEmptyString(value) ? value.trim() : undefined);
+
+const sanitizeLocalizedText = (value: unknown): Partial<Record<Language, string>> => {
+    // A plain string is accepted for hand-written packs that only use one language
+    if (isNonEmptyString(value)) {
+        return { en: value.trim() };
+    }
+    const result: Partial<Record<Language, string>> = {};
+    if (value && typeof value === 'object') {
+        for (const lang of PACK_LANGUAGES) {
+            const text = optionalString((value as Record<string, unknown>)[lang]);
+            if (text) {
+                result[lang] = text;
+            }
+        }
+    }
+    return result;
+};
+
+const sanitizeNotes = (value: unknown): ExpressionPromptNotes | undefined => {
+    if (!value || typeof value !== 'object') {
+        return undefined;
+    }
+    const raw = value as Record<string, unknown>;
+    const notes: ExpressionPromptNotes = {
+        pose: optionalString(raw.pose),
+        props: optionalString(raw.props),
+        framing: optionalString(raw.framing),
+    };
+    return notes.pose || notes.props || notes.framing ? notes : undefined;
+};
+
+/** Rebuilds a pack entry from untrusted JSON, or returns null when it has no usable label. */
+export const sanitizeEntry = (value: unknown): ExpressionPackEntry | null => {
+    if (!value || typeof value !== 'object') {
+        return null;
+    }
+    const raw = value as Record<string, unknown>;
+    const labels = sanitizeLocalizedText(raw.labels ?? raw.label);
+    if (Object.keys(labels).length === 0) {
+        return null;
+    }
+    const type = raw.type === 'expressive' ? 'expressive' : 'plain';
+    return {
+        emoji: optionalString(raw.emoji) ?? (type === 'expressive' ? '💬' : '🙂'),
+        labels,
+        type,
+        category: optionalString(raw.category),
+        exclusions: optionalString(raw.exclusions),
+        notes: sanitizeNotes(raw.notes),
+    };
+};
+
+/**
+ * Reads a pack file. Accepts the wrapped export format or a bare array of entries;
+ * throws when nothing in it can be used.
+ */
+export const parseExpressionPack = (json: string, fallbackName = 'Imported pack'): ExpressionPack => {
+    const data = JSON.parse(json);
+    const rawEntries = Array.isArray(data) ? data : data?.expressions;
+    if (!Array.isArray(rawEntries)) {
+        throw new Error('Not an expression pack');
+    }
+    if (!Array.isArray(data) && typeof data.version === 'number' && data.version > EXPRESSION_PACK_FORMAT_VERSION) {
+        throw new Error(`Unsupported expression pack version ${data.version}`);
+    }
+    const expressions = rawEntries
+        .map(sanitizeEntry)
+        .filter((entry): entry is ExpressionPackEntry => entry !== null);
+    if (expressions.length === 0) {
+        throw new Error('Expression pack has no usable expressions');
+    }
+    const name = sanitizeLocalizedText(Array.isArray(data) ? undefined : data.name);
+    const description = sanitizeLocalizedText(Array.isArray(data) ? undefined : data.description);
+    return {
+        id: optionalString(data?.id) ?? crypto.randomUUID(),
+        name: Object.keys(name).length ? name : { en: fallbackName },
+        description: Object.keys(description).length ? description : undefined,
+        expressions,
+    };
+};
+
+export const serializeExpressionPack = (pack: ExpressionPack): string =>
+    JSON.stringify({ format: EXPRESSION_PACK_FORMAT, version: EXPRESSION_PACK_FORMAT_VERSION, ...pack }, null, 2);
+
+/** Snapshots the current list as a pack; default expressions are written out in every language. */
+export const createExpressionPack = (
+    name: string,
+    expressions: Expression[],
+    categories: ExpressionCategory[],
+    translations: Translations
+): ExpressionPack => ({
+    id: crypto.randomUUID(),
+    name: { en: name, sw: name },
+    expressions: expressions.map(expression => {
+        const labels: Partial<Record<Language, string>> = {};
+        for (const lang of PACK_LANGUAGES) {
+            const label = expression.isDefault || expression.labels?.[lang]
+                ? getExpressionLabelIn(expression, lang, translations)
+                : undefined;
+            if (label) {
+                labels[lang] = label;
+            }
+        }
+        if (Object.keys(labels).length === 0) {
+            labels.en = expression.label;
+        }
+        return {
+            emoji: expression.emoji,
+            labels,
+            type: expression.type,
+            category: categories.find(c => c.id === expression.category)?.name,
+            exclusions: expression.exclusions,
+            notes: expression.promptNotes,
+        };
+    }),
+});
+
+export const getPackText = (text: Partial<Record<Language, string>> | undefined, language: Language): string =>
+    text?.[language] ?? PACK_LANGUAGES.map(lang => text?.[lang]).find(Boolean) ?? '';
+
+export type ExpressionPackApplyResult = {
+    expressions: Expression[];
+    categories: ExpressionCategory[];
+    added: number;
+    skipped: number; // Entries left out because the list already had them
+};
+
+/**
+ * Finds the section a pack entry names, ignoring case, and adds it to `categories` when
+ * there is none yet. Entries without a section stay in the default ones.
+ */
+export const resolveCategoryId = (categories: ExpressionCategory[], name: string | undefined): string | undefined => {
+    if (!name) {
+        return undefined;
+    }
+    let category = categories.find(c => c.name.toLowerCase() === name.toLowerCase());
+    if (!category) {
+        category = { id: crypto.randomUUID(), name };
+        categories.push(category);
+    }
+    return category.id;
+};
+
+/**
+ * Loads a pack into the current list. Merging keeps everything and skips entries whose
+ * label already exists in either language; replacing swaps the list for the pack's.
+ * Section names are reused when they match, otherwise new sections are created.
+ */
+export const applyExpressionPack = (
+    pack: ExpressionPack,
+    mode: ExpressionPackImportMode,
+    current: { expressions: Expression[]; categories: ExpressionCategory[] },
+    translations: Translations
+): ExpressionPackApplyResult => {
+    const baseExpressions = mode === 'replace' ? [] : current.expressions;
+    const categories = mode === 'replace' ? [] : [...current.categories];
+    const takenLabels = new Set(baseExpressions.flatMap(expression =>
+        PACK_LANGUAGES.map(lang => `${lang}:${getExpressionLabelIn(expression, lang, translations).toLowerCase()}`)));
+
+    const additions: Expression[] = [];
+    let skipped = 0;
+    for (const entry of pack.expressions) {
+        const keys = PACK_LANGUAGES
+            .filter(lang => entry.labels[lang])
+            .map(lang => `${lang}:${entry.labels[lang]!.toLowerCase()}`);
+        if (keys.some(key => takenLabels.has(key))) {
+            skipped++;
+            continue;
+        }
+        keys.forEach(key => takenLabels.add(key));
+        additions.push({
+            id: crypto.randomUUID(),
+            emoji: entry.emoji,
+            label: getPackText(entry.labels, 'en'),
+            labels: entry.labels,
+            type: entry.type,
+            isDefault: false,
+            exclusions: entry.exclusions,
+            promptNotes: entry.notes,
+            category: resolveCategoryId(categories, entry.category),
+        });
+    }
+
+    return { expressions: [...baseExpressions, ...additions], categories, added: additions.length, skipped };
+};
@@ -0,0 +1,148 @@
+import { Type } from '@google/genai';
+import type {
+    ExpressionSuggester, ExpressionSuggestion, ExpressionSuggestionRequest, ImageProviderId, Language,
+} from '../types';
+import { getGeminiClient, hashString, waitFor } from './image-provider';
+import { GenerationError } from './generation-errors';
+
+export const DEFAULT_GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+export const DEFAULT_SUGGESTION_COUNT = 8;
+
+const LANGUAGE_NAMES: Record<Language, string> = { sw: 'Swahili', en: 'English' };
+const LOCAL_SUGGESTER_DELAY_MS = 400;
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase();
+
+/** Drops malformed entries, repeats and anything already in the pack. */
+export const sanitizeSuggestions = (values: unknown, existingLabels: string[]): ExpressionSuggestion[] => {
+    if (!Array.isArray(values)) {
+        return [];
+    }
+    const seen = new Set(existingLabels.map(normalizeLabel));
+    const suggestions: ExpressionSuggestion[] = [];
+    for (const value of values) {
+        const label = typeof value?.label === 'string' ? value.label.trim() : '';
+        const type = value?.type === 'expressive' ? 'expressive' : value?.type === 'plain' ? 'plain' : null;
+        if (!label || !type || seen.has(normalizeLabel(label))) {
+            continue;
+        }
+        seen.add(normalizeLabel(label));
+        const emoji = typeof value.emoji === 'string' && value.emoji.trim() ? value.emoji.trim() : type === 'plain' ? '🙂' : '💬';
+        suggestions.push({ emoji, label, type });
+    }
+    return suggestions;
+};
+
+// --- Gemini ---
+const buildSuggestionPrompt = ({ language, existingLabels, count }: ExpressionSuggestionRequest) =>
+    `You are helping someone design a chat sticker pack of the person or character in this photo.
+    Look at their apparent personality, outfit, setting, and vibe, and suggest ${count} fun, fitting sticker expressions tailored to them.
+    Mix two kinds: "plain" items are facial emotions or gestures described in 1–3 words; "expressive" items are short, punchy catchphrases (max 4 words) that will be drawn as text on the sticker.
+    Write every label in ${LANGUAGE_NAMES[language]}, using natural, everyday ${LANGUAGE_NAMES[language]} people actually use in chats.
+    Pick one emoji that matches each label.
+    ${existingLabels.length ? `The pack already contains: ${existingLabels.map(label => `"${label}"`).join(', ')}. Do not repeat or closely paraphrase these.` : ''}
+    Do not comment on the person's appearance in a hurtful way.`;
+
+const geminiSuggester: ExpressionSuggester = {
+    id: 'gemini',
+    suggestExpressions: async (request: ExpressionSuggestionRequest): Promise<ExpressionSuggestion[]> => {
+        const response = await getGeminiClient().models.generateContent({
+            model: DEFAULT_GEMINI_TEXT_MODEL,
+            contents: {
+                parts: [
+                    { inlineData: { data: request.image.data, mimeType: request.image.mimeType } },
+                    { text: buildSuggestionPrompt(request) },
+                ],
+            },
+            config: {
+                abortSignal: request.signal,
+                responseMimeType: 'application/json',
+                responseSchema: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            emoji: { type: Type.STRING },
+                            label: { type: Type.STRING },
+                            type: { type: Type.STRING, enum: ['plain', 'expressive'] },
+                        },
+                        required: ['emoji', 'label', 'type'],
+                    },
+                },
+            },
+        });
+
+        if (response.promptFeedback?.blockReason) {
+            throw new GenerationError('promptBlocked', response.promptFeedback.blockReason);
+        }
+        const text = response.text;
+        if (!text) {
+            throw new GenerationError('unknown', response.candidates?.[0]?.finishReason ?? 'Empty suggestion response');
+        }
+        try {
+            return sanitizeSuggestions(JSON.parse(text), request.existingLabels);
+        } catch (parseError) {
+            throw new GenerationError('unknown', 'Suggestions were not valid JSON', { cause: parseError });
+        }
+    },
+};
+
+// --- Local stand-in ---
+const LOCAL_SUGGESTIONS: Record<Language, ExpressionSuggestion[]> = {
+    en: [
+        { emoji: '😂', label: 'Crying laughing', type: 'plain' },
+        { emoji: '😴', label: 'Sleepy', type: 'plain' },
+        { emoji: '😱', label: 'Shocked', type: 'plain' },
+        { emoji: '🥰', label: 'In love', type: 'plain' },
+        { emoji: '😤', label: 'Fuming', type: 'plain' },
+        { emoji: '🤫', label: 'Shh, secret', type: 'plain' },
+        { emoji: '🫡', label: 'Salute', type: 'plain' },
+        { emoji: '🥳', label: 'Party time', type: 'plain' },
+        { emoji: '🔥', label: "Let's go!", type: 'expressive' },
+        { emoji: '👀', label: 'I saw that', type: 'expressive' },
+        { emoji: '⏳', label: 'On my way', type: 'expressive' },
+        { emoji: '🙌', label: 'Big mood', type: 'expressive' },
+        { emoji: '🤝', label: 'Deal!', type: 'expressive' },
+        { emoji: '😬', label: 'Awkward...', type: 'expressive' },
+    ],
+    sw: [
+        { emoji: '😂', label: 'Kucheka hadi machozi', type: 'plain' },
+        { emoji: '😴', label: 'Usingizi', type: 'plain' },
+        { emoji: '😱', label: 'Mshangao', type: 'plain' },
+        { emoji: '🥰', label: 'Mapenzi', type: 'plain' },
+        { emoji: '😤', label: 'Hasira', type: 'plain' },
+        { emoji: '🤫', label: 'Kimya, siri', type: 'plain' },
+        { emoji: '🫡', label: 'Saluti', type: 'plain' },
+        { emoji: '🥳', label: 'Sherehe', type: 'plain' },
+        { emoji: '🔥', label: 'Twende kazi!', type: 'expressive' },
+        { emoji: '👀', label: 'Nimeona hiyo', type: 'expressive' },
+        { emoji: '⏳', label: 'Niko njiani', type: 'expressive' },
+        { emoji: '🙌', label: 'Safi sana', type: 'expressive' },
+        { emoji: '🤝', label: 'Dili!', type: 'expressive' },
+        { emoji: '😬', label: 'Aibu...', type: 'expressive' },
+    ],
+};
+
+/**
+ * Offline suggester that picks from a curated list. The photo only seeds where in the
+ * list it starts, so different characters get different (but repeatable) picks.
+ */
+const localSuggester: ExpressionSuggester = {
+    id: 'local',
+    suggestExpressions: async (request: ExpressionSuggestionRequest): Promise<ExpressionSuggestion[]> => {
+        await waitFor(LOCAL_SUGGESTER_DELAY_MS, request.signal);
+        const pool = LOCAL_SUGGESTIONS[request.language];
+        const offset = hashString(request.image.data.slice(-256)) % pool.length;
+        const rotated = [...pool.slice(offset), ...pool.slice(0, offset)];
+        return sanitizeSuggestions(rotated, request.existingLabels).slice(0, request.count);
+    },
+};
+
+// --- Registry ---
+// Suggestions follow the image provider choice, so the local demo engine never needs a key.
+const EXPRESSION_SUGGESTERS: Record<ImageProviderId, ExpressionSuggester> = {
+    gemini: geminiSuggester,
+    local: localSuggester,
+};
+
+export const getExpressionSuggester = (id: ImageProviderId): ExpressionSuggester => EXPRESSION_SUGGESTERS[id] ?? localSuggester;
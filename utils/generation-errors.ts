@@ -0,0 +1,113 @@
+import type { GenerationErrorKind, GenerationResult, StickerError } from '../types';
+
+/** How the UI should offer recovery for a given failure. */
+export type GenerationRecovery = 'retry' | 'reword' | 'checkKey' | 'reprocess';
+
+type GenerationErrorInfo = {
+    messageKey: string; // translations.json key
+    hintKey?: string;
+    recovery: GenerationRecovery;
+    autoRetry: boolean; // Whether the queue may retry with backoff on its own
+};
+
+export const GENERATION_ERROR_INFO: Record<GenerationErrorKind, GenerationErrorInfo> = {
+    quotaExceeded: { messageKey: 'errorQuotaExceeded', hintKey: 'errorHintQuota', recovery: 'retry', autoRetry: false },
+    rateLimited: { messageKey: 'errorRateLimited', recovery: 'retry', autoRetry: true },
+    invalidKey: { messageKey: 'errorInvalidKey', hintKey: 'errorHintInvalidKey', recovery: 'checkKey', autoRetry: false },
+    offline: { messageKey: 'errorOffline', hintKey: 'errorHintOffline', recovery: 'retry', autoRetry: true },
+    network: { messageKey: 'errorNetwork', recovery: 'retry', autoRetry: true },
+    serverError: { messageKey: 'errorServer', recovery: 'retry', autoRetry: true },
+    promptBlocked: { messageKey: 'errorPromptBlocked', hintKey: 'errorHintReword', recovery: 'reword', autoRetry: false },
+    imageBlocked: { messageKey: 'errorImageBlocked', hintKey: 'errorHintImageBlocked', recovery: 'retry', autoRetry: false },
+    noImage: { messageKey: 'errorNoImage', recovery: 'retry', autoRetry: false },
+    imageDecode: { messageKey: 'errorImageDecode', recovery: 'retry', autoRetry: false },
+    transparency: { messageKey: 'errorTransparency', hintKey: 'errorHintTransparency', recovery: 'reprocess', autoRetry: false },
+    unknown: { messageKey: 'errorGenericGeneration', recovery: 'retry', autoRetry: false },
+};
+
+const BLOCKED_IMAGE_FINISH_REASONS = new Set([
+    'SAFETY',
+    'RECITATION',
+    'BLOCKLIST',
+    'PROHIBITED_CONTENT',
+    'SPII',
+    'IMAGE_SAFETY',
+]);
+
+export class GenerationError extends Error {
+    kind: GenerationErrorKind;
+    details?: string;
+
+    constructor(kind: GenerationErrorKind, details?: string, options?: { cause?: unknown }) {
+        super(details ? `${kind}: ${details}` : kind);
+        this.name = 'GenerationError';
+        this.kind = kind;
+        this.details = details;
+        if (options?.cause !== undefined) {
+            (this as { cause?: unknown }).cause = options.cause;
+        }
+    }
+}
+
+const readErrorStatus = (error: unknown): number | null => {
+    if (error && typeof error === 'object' && 'status' in error) {
+        const status = Number((error as { status: unknown }).status);
+        return Number.isFinite(status) ? status : null;
+    }
+    return null;
+};
+
+const readErrorMessage = (error: unknown): string => {
+    if (error instanceof Error) {
+        return error.message;
+    }
+    return typeof error === 'string' ? error : '';
+};
+
+/** Maps anything thrown during a generation attempt onto the error taxonomy. */
+export const classifyGenerationError = (error: unknown): GenerationError => {
+    if (error instanceof GenerationError) {
+        return error;
+    }
+
+    const status = readErrorStatus(error);
+    const message = readErrorMessage(error);
+    const details = [status, message].filter(Boolean).join(' ') || undefined;
+    const make = (kind: GenerationErrorKind) => new GenerationError(kind, details, { cause: error });
+
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+        return make('offline');
+    }
+    if (status === 429) {
+        return make(/quota/i.test(message) ? 'quotaExceeded' : 'rateLimited');
+    }
+    if (status === 401 || status === 403 || /api[ _-]?key/i.test(message)) {
+        return make('invalidKey');
+    }
+    if (status !== null && status >= 500 && status < 600) {
+        return make('serverError');
+    }
+    if (error instanceof TypeError && /fetch|network/i.test(message)) {
+        return make('network');
+    }
+    return make('unknown');
+};
+
+/** Explains why a provider answered without an image. */
+export const getEmptyResultError = (result: GenerationResult): GenerationError => {
+    if (result.blockReason) {
+        return new GenerationError('promptBlocked', result.blockReason);
+    }
+    if (result.finishReason && BLOCKED_IMAGE_FINISH_REASONS.has(result.finishReason)) {
+        return new GenerationError('imageBlocked', result.finishReason);
+    }
+    return new GenerationError('noImage', result.finishReason);
+};
+
+export const isAutoRetryableError = (error: unknown): boolean =>
+    GENERATION_ERROR_INFO[classifyGenerationError(error).kind].autoRetry;
+
+export const toStickerError = (error: unknown): StickerError => {
+    const { kind, details } = classifyGenerationError(error);
+    return { kind, details };
+};
@@ -0,0 +1,170 @@
+export type QueueJobStatus = 'queued' | 'running' | 'retrying' | 'done' | 'error' | 'cancelled';
+
+export type QueueJobUpdate = {
+    status: QueueJobStatus;
+    attempt: number; // 1-based attempt currently (or last) in progress
+    retryDelayMs?: number;
+    error?: unknown;
+};
+
+export type JobQueueOptions = {
+    concurrency: number;
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    isRetryable: (error: unknown) => boolean;
+    onJobUpdate: (id: string, update: QueueJobUpdate) => void;
+    onActiveChange?: (active: boolean) => void;
+};
+
+export type QueueJobRunner = (signal: AbortSignal, attempt: number) => Promise<void>;
+
+type QueueJob = {
+    id: string;
+    run: QueueJobRunner;
+    attempt: number;
+    controller: AbortController;
+    retryTimer?: ReturnType<typeof setTimeout>;
+};
+
+export type JobQueue = {
+    add: (id: string, run: QueueJobRunner) => void;
+    pause: () => void;
+    resume: () => void;
+    cancel: () => void;
+    cancelJob: (id: string) => void;
+    setConcurrency: (concurrency: number) => void;
+    isPaused: () => boolean;
+    isActive: () => boolean;
+};
+
+export const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+    const exponential = baseDelayMs * Math.pow(2, Math.max(0, attempt - 1));
+    const jitter = Math.random() * baseDelayMs * 0.25;
+    return Math.min(maxDelayMs, exponential + jitter);
+};
+
+/**
+ * Runs generation jobs with bounded parallelism. Jobs that fail with a retryable
+ * error are re-queued after an exponential backoff; cancelling aborts everything
+ * in flight and drops whatever is still waiting.
+ */
+export const createJobQueue = (initialOptions: JobQueueOptions): JobQueue => {
+    const options = { ...initialOptions };
+    const pending: QueueJob[] = [];
+    const running = new Map<string, QueueJob>();
+    const waiting = new Map<string, QueueJob>(); // Jobs sleeping before a retry
+    let paused = false;
+    let wasActive = false;
+
+    const isActive = () => pending.length > 0 || running.size > 0 || waiting.size > 0;
+
+    const notifyActivity = () => {
+        const active = isActive();
+        if (active !== wasActive) {
+            wasActive = active;
+            options.onActiveChange?.(active);
+        }
+    };
+
+    const runJob = async (job: QueueJob) => {
+        running.set(job.id, job);
+        options.onJobUpdate(job.id, { status: 'running', attempt: job.attempt });
+        try {
+            await job.run(job.controller.signal, job.attempt);
+            if (job.controller.signal.aborted) {
+                return;
+            }
+            options.onJobUpdate(job.id, { status: 'done', attempt: job.attempt });
+        } catch (error) {
+            if (job.controller.signal.aborted) {
+                return;
+            }
+            if (job.attempt <= options.maxRetries && options.isRetryable(error)) {
+                const retryDelayMs = getBackoffDelay(job.attempt, options.baseDelayMs, options.maxDelayMs);
+                options.onJobUpdate(job.id, { status: 'retrying', attempt: job.attempt, retryDelayMs, error });
+                waiting.set(job.id, job);
+                job.retryTimer = setTimeout(() => {
+                    waiting.delete(job.id);
+                    job.attempt += 1;
+                    pending.unshift(job);
+                    pump();
+                }, retryDelayMs);
+            } else {
+                options.onJobUpdate(job.id, { status: 'error', attempt: job.attempt, error });
+            }
+        } finally {
+            if (running.get(job.id) === job) {
+                running.delete(job.id);
+            }
+            pump();
+        }
+    };
+
+    const pump = () => {
+        while (!paused && running.size < options.concurrency && pending.length > 0) {
+            const job = pending.shift()!;
+            void runJob(job);
+        }
+        notifyActivity();
+    };
+
+    /** Removes a job wherever it is; returns whether there was one. */
+    const dropJob = (id: string): boolean => {
+        let found = false;
+        const pendingIndex = pending.findIndex(job => job.id === id);
+        if (pendingIndex >= 0) {
+            pending.splice(pendingIndex, 1);
+            found = true;
+        }
+        const sleeping = waiting.get(id);
+        if (sleeping) {
+            clearTimeout(sleeping.retryTimer);
+            waiting.delete(id);
+            found = true;
+        }
+        const active = running.get(id);
+        if (active) {
+            active.controller.abort();
+            running.delete(id);
+            found = true;
+        }
+        return found;
+    };
+
+    return {
+        add: (id, run) => {
+            // Re-adding an id replaces any earlier job for the same sticker.
+            dropJob(id);
+            pending.push({ id, run, attempt: 1, controller: new AbortController() });
+            options.onJobUpdate(id, { status: 'queued', attempt: 1 });
+            pump();
+        },
+        pause: () => {
+            paused = true;
+        },
+        resume: () => {
+            paused = false;
+            pump();
+        },
+        cancel: () => {
+            const ids = [...pending, ...waiting.values(), ...running.values()].map(job => job.id);
+            ids.forEach(dropJob);
+            paused = false;
+            ids.forEach(id => options.onJobUpdate(id, { status: 'cancelled', attempt: 0 }));
+            notifyActivity();
+        },
+        cancelJob: (id) => {
+            if (dropJob(id)) {
+                options.onJobUpdate(id, { status: 'cancelled', attempt: 0 });
+                pump(); // A freed slot goes to the next waiting job
+            }
+        },
+        setConcurrency: (concurrency) => {
+            options.concurrency = Math.max(1, Math.floor(concurrency));
+            pump();
+        },
+        isPaused: () => paused,
+        isActive,
+    };
+};
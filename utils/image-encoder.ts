@@ -0,0 +1,134 @@
+import { canvasToBlob, dataUrlToBlob, renderImage } from './image';
+import { createColorHistogram, encodePalettePng } from './palette-png';
+
+export type StickerEncodeFormat = 'png' | 'webp';
+
+export type StickerEncodeSettings = {
+    format: StickerEncodeFormat;
+    maxBytes: number | null; // Per sticker file; null keeps full quality
+};
+
+export type EncodedSticker = {
+    blob: Blob;
+    format: StickerEncodeFormat;
+    extension: string;
+    lossless: boolean;
+    quality?: number; // Lossy WebP quality, 1-100
+    colors?: number; // Palette size of a quantized PNG
+    withinBudget: boolean;
+};
+
+export type ImageEncodeErrorReason = 'webpUnsupported';
+
+export class ImageEncodeError extends Error {
+    reason: ImageEncodeErrorReason;
+
+    constructor(reason: ImageEncodeErrorReason, details?: string) {
+        super(details ? `${reason}: ${details}` : reason);
+        this.name = 'ImageEncodeError';
+        this.reason = reason;
+    }
+}
+
+export const STICKER_ENCODE_FORMATS: StickerEncodeFormat[] = ['png', 'webp'];
+export const DEFAULT_ENCODE_SETTINGS: StickerEncodeSettings = { format: 'png', maxBytes: null };
+
+const WEBP_MIN_QUALITY = 5;
+const WEBP_MAX_QUALITY = 95;
+export const WEBP_TOP_QUALITY = 100;
+const PNG_PALETTE_SIZES = [256, 128, 64, 32, 16, 8];
+
+export const isStickerEncodeFormat = (value: unknown): value is StickerEncodeFormat =>
+    typeof value === 'string' && (STICKER_ENCODE_FORMATS as string[]).includes(value);
+
+/** Whether these settings change anything compared with the stored PNGs. */
+export const needsEncoding = (settings: StickerEncodeSettings): boolean =>
+    settings.format !== 'png' || settings.maxBytes !== null;
+
+const fits = (blob: Blob, maxBytes: number | null) => maxBytes === null || blob.size <= maxBytes;
+
+// Other browsers treat quality 1 as their best lossy setting
+const hasLosslessWebpAtTopQuality = () => /\bChrom(e|ium)\//.test(navigator.userAgent);
+
+/**
+ * WebP at its top setting when it fits, which is lossless only in Chromium. Otherwise the
+ * highest lossy quality that does, found by bisecting the quality range. Falls back to the
+ * smallest attempt when nothing fits.
+ */
+const encodeWebp = async (canvas: HTMLCanvasElement, maxBytes: number | null): Promise<EncodedSticker> => {
+    // Chromium switches to its lossless encoder at quality 1
+    const top = await canvasToBlob(canvas, 'image/webp', 1);
+    // Browsers without a WebP encoder silently hand back a PNG
+    if (top.type !== 'image/webp') {
+        throw new ImageEncodeError('webpUnsupported', top.type);
+    }
+    const topResult: EncodedSticker = hasLosslessWebpAtTopQuality()
+        ? { blob: top, format: 'webp', extension: 'webp', lossless: true, withinBudget: true }
+        : { blob: top, format: 'webp', extension: 'webp', lossless: false, quality: WEBP_TOP_QUALITY, withinBudget: true };
+    if (fits(top, maxBytes)) {
+        return topResult;
+    }
+
+    let best: EncodedSticker | null = null;
+    let smallest: EncodedSticker = { ...topResult, withinBudget: false };
+    let low = WEBP_MIN_QUALITY;
+    let high = WEBP_MAX_QUALITY;
+    while (low <= high) {
+        const quality = Math.floor((low + high) / 2);
+        const blob = await canvasToBlob(canvas, 'image/webp', quality / 100);
+        const attempt: EncodedSticker = { blob, format: 'webp', extension: 'webp', lossless: false, quality, withinBudget: fits(blob, maxBytes) };
+        if (attempt.withinBudget) {
+            best = attempt;
+            low = quality + 1;
+        } else {
+            high = quality - 1;
+        }
+        if (blob.size < smallest.blob.size) {
+            smallest = { ...attempt, withinBudget: false };
+        }
+    }
+    return best ?? smallest;
+};
+
+/** Plain PNG when it fits, otherwise ever smaller palettes until one does. */
+const encodePng = async (canvas: HTMLCanvasElement, maxBytes: number | null): Promise<EncodedSticker> => {
+    const png = await canvasToBlob(canvas, 'image/png');
+    const pngResult: EncodedSticker = { blob: png, format: 'png', extension: 'png', lossless: true, withinBudget: true };
+    if (fits(png, maxBytes)) {
+        return pngResult;
+    }
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas is not available');
+    }
+
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const histogram = createColorHistogram(image);
+    let smallest: EncodedSticker = { ...pngResult, withinBudget: false };
+    for (const maxColors of PNG_PALETTE_SIZES) {
+        const { blob, colors } = await encodePalettePng(image, maxColors, histogram);
+        const attempt: EncodedSticker = { blob, format: 'png', extension: 'png', lossless: false, colors, withinBudget: fits(blob, maxBytes) };
+        if (attempt.withinBudget) {
+            return attempt;
+        }
+        if (blob.size < smallest.blob.size) {
+            smallest = attempt;
+        }
+        if (colors < maxColors) {
+            break; // The image has no more colors to give up
+        }
+    }
+    return smallest;
+};
+
+/** Encodes a canvas in the chosen format, giving up as little quality as the byte budget allows. */
+export const encodeCanvas = (canvas: HTMLCanvasElement, settings: StickerEncodeSettings): Promise<EncodedSticker> =>
+    settings.format === 'webp' ? encodeWebp(canvas, settings.maxBytes) : encodePng(canvas, settings.maxBytes);
+
+/** Encodes a processed sticker at its own size; stored PNGs pass straight through when nothing is asked of them. */
+export const encodeStickerImage = async (dataUrl: string, settings: StickerEncodeSettings): Promise<EncodedSticker> => {
+    if (!needsEncoding(settings) && dataUrl.startsWith('data:image/png')) {
+        return { blob: dataUrlToBlob(dataUrl), format: 'png', extension: 'png', lossless: true, withinBudget: true };
+    }
+    return encodeCanvas(await renderImage(dataUrl), settings);
+};
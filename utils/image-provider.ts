@@ -0,0 +1,150 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+import type {
+    GenerationInputPart, GenerationRequest, GenerationResult, ImageProvider, ImageProviderId,
+} from '../types';
+
+export const DEFAULT_GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+const LOCAL_PROVIDER_ASSETS = [
+    'Model_1.png',
+    'Model_2.png',
+    'Model_3.png',
+    'Model_4.png',
+    'Model_5.png',
+    'Model_6.png',
+];
+const LOCAL_PROVIDER_DELAY_MS = 600;
+
+// --- Gemini ---
+let geminiClient: GoogleGenAI | null = null;
+
+export const getGeminiClient = () => {
+    if (!geminiClient) {
+        geminiClient = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    }
+    return geminiClient;
+};
+
+const geminiProvider: ImageProvider = {
+    id: 'gemini',
+    generateImage: async ({ parts, prompt, options }: GenerationRequest): Promise<GenerationResult> => {
+        const response = await getGeminiClient().models.generateContent({
+            model: options?.model ?? DEFAULT_GEMINI_IMAGE_MODEL,
+            contents: {
+                parts: [
+                    ...parts.map(part => ({ inlineData: { data: part.data, mimeType: part.mimeType } })),
+                    { text: prompt },
+                ],
+            },
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: options?.signal,
+                seed: options?.seed,
+            },
+        });
+
+        const candidate = response.candidates?.[0];
+        const imagePart = candidate?.content?.parts?.find(p => p.inlineData?.data);
+        const usage = response.usageMetadata;
+
+        return {
+            image: imagePart?.inlineData?.data
+                ? { data: imagePart.inlineData.data, mimeType: imagePart.inlineData.mimeType || 'image/png' }
+                : null,
+            finishReason: candidate?.finishReason,
+            blockReason: response.promptFeedback?.blockReason,
+            usage: usage
+                ? {
+                    promptTokens: usage.promptTokenCount ?? 0,
+                    outputTokens: usage.candidatesTokenCount ?? 0,
+                    totalTokens: usage.totalTokenCount ?? 0,
+                }
+                : null,
+        };
+    },
+};
+
+// --- Local stand-in ---
+export const hashString = (value: string): number => {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve((reader.result as string).split(',')[1] ?? '');
+        reader.onerror = () => reject(new Error('Failed to read canned image'));
+        reader.readAsDataURL(blob);
+    });
+
+export const waitFor = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Aborted', 'AbortError'));
+            return;
+        }
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        }, { once: true });
+    });
+
+const cannedImageCache = new Map<string, Promise<GenerationInputPart>>();
+
+const loadCannedImage = (file: string): Promise<GenerationInputPart> => {
+    let cached = cannedImageCache.get(file);
+    if (!cached) {
+        cached = fetch(`./assets/${file}`)
+            .then(response => {
+                if (!response.ok) {
+                    throw new Error(`Failed to load ${file}`);
+                }
+                return response.blob();
+            })
+            .then(async blob => ({ data: await blobToBase64(blob), mimeType: blob.type || 'image/png' }));
+        cached.catch(() => cannedImageCache.delete(file));
+        cannedImageCache.set(file, cached);
+    }
+    return cached;
+};
+
+/**
+ * Offline provider that answers every request with one of the bundled showcase
+ * images. The same prompt and seed always map to the same asset so demos are repeatable.
+ */
+const localProvider: ImageProvider = {
+    id: 'local',
+    generateImage: async ({ prompt, options }: GenerationRequest): Promise<GenerationResult> => {
+        const file = LOCAL_PROVIDER_ASSETS[hashString(`${prompt}#${options?.seed ?? 0}`) % LOCAL_PROVIDER_ASSETS.length];
+        const [image] = await Promise.all([
+            loadCannedImage(file),
+            waitFor(LOCAL_PROVIDER_DELAY_MS, options?.signal),
+        ]);
+        return {
+            image,
+            finishReason: 'STOP',
+            usage: { promptTokens: 0, outputTokens: 0, totalTokens: 0 },
+        };
+    },
+};
+
+// --- Registry ---
+const IMAGE_PROVIDERS: Record<ImageProviderId, ImageProvider> = {
+    gemini: geminiProvider,
+    local: localProvider,
+};
+
+export const IMAGE_PROVIDER_IDS = Object.keys(IMAGE_PROVIDERS) as ImageProviderId[];
+
+export const isImageProviderId = (value: unknown): value is ImageProviderId =>
+    typeof value === 'string' && Object.hasOwn(IMAGE_PROVIDERS, value);
+
+export const getImageProvider = (id: ImageProviderId): ImageProvider => IMAGE_PROVIDERS[id] ?? geminiProvider;
+
+/** Falls back to the local stand-in when the build has no Gemini key configured. */
+export const getDefaultImageProviderId = (): ImageProviderId => (process.env.API_KEY ? 'gemini' : 'local');
@@ -38,6 +38,73 @@ export const normalizeImageSize = async (
     return { dataUrl: canvas.toDataURL('image/png'), width, height };
 };
 
+/** Formats that can be brought in as finished stickers. */
+export const IMPORTABLE_IMAGE_TYPES = ['image/png', 'image/webp', 'image/jpeg'];
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+        reader.readAsDataURL(blob);
+    });
+
+/** Re-encodes an image as PNG, which is what every processed sticker is stored as. */
+export const convertToPng = async (dataUrl: string): Promise<string> => {
+    if (dataUrl.startsWith('data:image/png')) {
+        return dataUrl;
+    }
+    const img = await loadImage(dataUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas is not available');
+    }
+    ctx.drawImage(img, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/** Draws an image scaled to fit inside a fixed canvas, centred on a transparent background. */
+export const renderContained = async (dataUrl: string, width: number, height: number): Promise<HTMLCanvasElement> => {
+    const img = await loadImage(dataUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas is not available');
+    }
+    const scale = Math.min(width / img.width, height / img.height);
+    const drawWidth = Math.round(img.width * scale);
+    const drawHeight = Math.round(img.height * scale);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, Math.floor((width - drawWidth) / 2), Math.floor((height - drawHeight) / 2), drawWidth, drawHeight);
+    return canvas;
+};
+
+/** Draws an image onto a canvas at its own size. */
+export const renderImage = async (dataUrl: string): Promise<HTMLCanvasElement> => {
+    const img = await loadImage(dataUrl);
+    return renderContained(dataUrl, Math.max(1, img.width), Math.max(1, img.height));
+};
+
+/** Draws an image scaled so its longest side is exactly `longestSide`, enlarging small images. */
+export const renderScaled = async (dataUrl: string, longestSide: number): Promise<HTMLCanvasElement> => {
+    const img = await loadImage(dataUrl);
+    const scale = longestSide / Math.max(img.width, img.height, 1);
+    const width = Math.min(longestSide, Math.max(1, Math.round(img.width * scale)));
+    const height = Math.min(longestSide, Math.max(1, Math.round(img.height * scale)));
+    return renderContained(dataUrl, width, height);
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`))), type, quality);
+    });
+
 export const dataUrlToBlob = (dataUrl: string): Blob => {
     const [header, base64 = ''] = dataUrl.split(',');
     const mimeMatch = header.match(/data:(.*?);base64/);
@@ -0,0 +1,49 @@
+import type { ImageProviderId, Language, LabelTranslationRequest, LabelTranslator } from '../types';
+import { getGeminiClient, waitFor } from './image-provider';
+import { GenerationError } from './generation-errors';
+import { DEFAULT_GEMINI_TEXT_MODEL } from './expression-suggestions';
+
+const LANGUAGE_NAMES: Record<Language, string> = { sw: 'Swahili', en: 'English' };
+const LOCAL_TRANSLATOR_DELAY_MS = 200;
+
+// --- Gemini ---
+const geminiTranslator: LabelTranslator = {
+    id: 'gemini',
+    translateLabel: async ({ text, from, to, signal }: LabelTranslationRequest): Promise<string> => {
+        const response = await getGeminiClient().models.generateContent({
+            model: DEFAULT_GEMINI_TEXT_MODEL,
+            contents: `Translate this chat sticker label from ${LANGUAGE_NAMES[from]} to ${LANGUAGE_NAMES[to]}.
+            Keep the same feeling and casual chat tone, keep it as short as the original, and keep any emoji.
+            Reply with the translation only, without quotes or explanations.
+
+            Label: ${text}`,
+            config: { abortSignal: signal },
+        });
+        const translated = response.text?.trim().replace(/^["'“”]+|["'“”]+$/g, '');
+        if (!translated) {
+            throw new GenerationError('unknown', response.candidates?.[0]?.finishReason ?? 'Empty translation response');
+        }
+        return translated;
+    },
+};
+
+// --- Local stand-in ---
+/**
+ * Offline translator for demos. It cannot translate, so it always fails; reusing the original
+ * wording would store it as the other language's label and send it into that language's prompt.
+ */
+const localTranslator: LabelTranslator = {
+    id: 'local',
+    translateLabel: async ({ signal }: LabelTranslationRequest): Promise<string> => {
+        await waitFor(LOCAL_TRANSLATOR_DELAY_MS, signal);
+        throw new GenerationError('unknown', 'The local engine cannot translate labels');
+    },
+};
+
+// --- Registry ---
+const LABEL_TRANSLATORS: Record<ImageProviderId, LabelTranslator> = {
+    gemini: geminiTranslator,
+    local: localTranslator,
+};
+
+export const getLabelTranslator = (id: ImageProviderId): LabelTranslator => LABEL_TRANSLATORS[id] ?? localTranslator;
@@ -0,0 +1,150 @@
+import JSZip from 'jszip';
+import type {
+    Expression, ExpressionCategory, ExpressionPackEntry, Translations,
+} from '../types';
+import { PACK_LANGUAGES, createExpressionPack, sanitizeEntry } from './expression-packs';
+import { getExpressionLabelIn } from './prompt-generator';
+import { isPackIconFile } from './sticker-export';
+
+const STICKER_PACK_FORMAT = 'stickerme-sticker-pack';
+const STICKER_PACK_FORMAT_VERSION = 1;
+export const STICKER_PACK_MANIFEST_PATH = 'stickers.json';
+
+const PACK_IMAGE_TYPES: Record<string, string> = {
+    png: 'image/png',
+    webp: 'image/webp',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+};
+const EMOJI_PATTERN = /\p{Extended_Pictographic}(?:\uFE0F|\u200D\p{Extended_Pictographic})*/u;
+
+/** One image found in a pack ZIP, with whatever the manifest or file name says about it. */
+export type PackZipSticker = {
+    file: string;
+    image: Blob;
+    expressionId?: string; // Id the sticker had when it was exported from StickerMe
+    entry: ExpressionPackEntry;
+};
+
+/** Where an image from a pack ZIP goes: onto an existing expression, or into a new one. */
+export type PackZipMatch = Omit<PackZipSticker, 'expressionId'> & {
+    expressionId: string | null;
+};
+
+export const isZipFile = (file: File): boolean =>
+    /\.zip$/i.test(file.name) || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+
+/**
+ * Describes the stickers in a Download All ZIP so it can be loaded back with ids, emoji,
+ * sections and both languages' labels intact. `files` lines up with `expressions`.
+ */
+export const createStickerPackManifest = (
+    name: string,
+    expressions: Expression[],
+    files: string[],
+    categories: ExpressionCategory[],
+    translations: Translations
+): string => {
+    const pack = createExpressionPack(name, expressions, categories, translations);
+    return JSON.stringify({
+        format: STICKER_PACK_FORMAT,
+        version: STICKER_PACK_FORMAT_VERSION,
+        name,
+        stickers: pack.expressions.map((entry, index) => ({ file: files[index], id: expressions[index].id, ...entry })),
+    }, null, 2);
+};
+
+const normalizeLabel = (text: string) => text.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+
+/**
+ * Guesses an expression from a file name such as `me_03_Very_happy.png` (ours),
+ * `😂.webp` or `12_laughing.png` (other tools).
+ */
+const entryFromFilename = (file: string): ExpressionPackEntry => {
+    const base = file.split('/').pop()!.replace(/\.[^.]+$/, '');
+    const emoji = base.match(EMOJI_PATTERN)?.[0];
+    const label = base
+        .replace(EMOJI_PATTERN, '')
+        .replace(/^(?:.*?_)?\d+_(?=\D)/, '') // Position prefix from Download All, with or without the photo name
+        .replace(/^\d+$/, '')
+        .replace(/[_-]+/g, ' ')
+        .trim();
+    return {
+        emoji: emoji ?? '🙂',
+        labels: label ? { en: label } : {},
+        type: 'plain',
+    };
+};
+
+const isPackImage = (path: string) => {
+    const name = path.split('/').pop() ?? '';
+    // Finder and other archivers add metadata files next to the real ones; our own exports add pack icons
+    return !path.startsWith('__MACOSX/') && !name.startsWith('.') && !isPackIconFile(name)
+        && /\.(png|webp|jpe?g)$/i.test(name);
+};
+
+/** Lists the stickers in a ZIP, in file order, using its manifest when it has one. */
+export const readStickerPackZip = async (file: Blob): Promise<PackZipSticker[]> => {
+    const zip = await JSZip.loadAsync(file);
+    const manifestEntries = new Map<string, { id?: string; entry: ExpressionPackEntry }>();
+    const manifestFile = zip.file(STICKER_PACK_MANIFEST_PATH);
+    if (manifestFile) {
+        try {
+            const manifest = JSON.parse(await manifestFile.async('string'));
+            if (manifest?.format === STICKER_PACK_FORMAT && Array.isArray(manifest.stickers)) {
+                for (const raw of manifest.stickers) {
+                    const entry = sanitizeEntry(raw);
+                    if (entry && typeof raw.file === 'string') {
+                        manifestEntries.set(raw.file, { id: typeof raw.id === 'string' ? raw.id : undefined, entry });
+                    }
+                }
+            }
+        } catch (err) {
+            console.warn('Ignoring an unreadable sticker pack manifest', err);
+        }
+    }
+
+    const paths = Object.keys(zip.files)
+        .filter(path => !zip.files[path].dir && isPackImage(path))
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    return Promise.all(paths.map(async path => {
+        const extension = path.split('.').pop()!.toLowerCase();
+        const data = await zip.file(path)!.async('arraybuffer');
+        const described = manifestEntries.get(path);
+        return {
+            file: path,
+            image: new Blob([data], { type: PACK_IMAGE_TYPES[extension] ?? 'image/png' }),
+            expressionId: described?.id,
+            entry: described?.entry ?? entryFromFilename(path),
+        };
+    }));
+};
+
+/**
+ * Pairs each image with an expression: first by the exported id, then by label in either
+ * language. Each expression takes at most one image; the rest become new expressions.
+ */
+export const matchPackStickers = (
+    stickers: PackZipSticker[],
+    expressions: Expression[],
+    translations: Translations
+): PackZipMatch[] => {
+    const labelsById = new Map(expressions.map(expression => [
+        expression.id,
+        PACK_LANGUAGES.map(lang => normalizeLabel(getExpressionLabelIn(expression, lang, translations))).filter(Boolean),
+    ]));
+    const claimed = new Set<string>();
+    const isFree = (id: string) => labelsById.has(id) && !claimed.has(id);
+
+    return stickers.map(sticker => {
+        const entryLabels = PACK_LANGUAGES.map(lang => sticker.entry.labels[lang]).filter(Boolean).map(label => normalizeLabel(label!));
+        let expressionId: string | null = sticker.expressionId && isFree(sticker.expressionId) ? sticker.expressionId : null;
+        if (!expressionId) {
+            expressionId = expressions.find(e => isFree(e.id) && labelsById.get(e.id)!.some(label => entryLabels.includes(label)))?.id ?? null;
+        }
+        if (expressionId) {
+            claimed.add(expressionId);
+        }
+        return { ...sticker, expressionId };
+    });
+};
@@ -0,0 +1,278 @@
+/** Raw RGBA pixels; ImageData from a canvas fits as-is. */
+export type RgbaImage = {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+};
+
+/**
+ * Pixel counts per color at 5 bits a channel, which is as fine as a 256-color palette
+ * can use. Fully transparent pixels share one bucket whatever their RGB says.
+ */
+export type ColorHistogram = {
+    counts: Uint32Array;
+    sums: Float64Array; // Summed r, g, b, a per bucket, so palette colors keep full precision
+    keys: Int32Array; // Buckets that occur, apart from the transparent one
+    transparent: number; // Number of fully transparent pixels
+};
+
+type ColorBox = {
+    start: number; // Range within ColorHistogram.keys
+    end: number;
+    population: number;
+    channel: number; // Channel with the widest spread
+    spread: number;
+};
+
+const CHANNEL_BITS = 5;
+const CHANNEL_MASK = (1 << CHANNEL_BITS) - 1;
+const BUCKET_COUNT = 1 << (CHANNEL_BITS * 4);
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const PNG_COLOR_TYPE_INDEXED = 3;
+
+const toBucket = (r: number, g: number, b: number, a: number) =>
+    ((r >> 3) << 15) | ((g >> 3) << 10) | ((b >> 3) << 5) | (a >> 3);
+
+const getChannel = (bucket: number, channel: number) => (bucket >> (15 - channel * CHANNEL_BITS)) & CHANNEL_MASK;
+
+export const createColorHistogram = (image: RgbaImage): ColorHistogram => {
+    const { data } = image;
+    const counts = new Uint32Array(BUCKET_COUNT);
+    const sums = new Float64Array(BUCKET_COUNT * 4);
+    let transparent = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] === 0) {
+            transparent++;
+            continue;
+        }
+        const bucket = toBucket(data[i], data[i + 1], data[i + 2], data[i + 3]);
+        counts[bucket]++;
+        sums[bucket * 4] += data[i];
+        sums[bucket * 4 + 1] += data[i + 1];
+        sums[bucket * 4 + 2] += data[i + 2];
+        sums[bucket * 4 + 3] += data[i + 3];
+    }
+    const keys: number[] = [];
+    for (let bucket = 0; bucket < BUCKET_COUNT; bucket++) {
+        if (counts[bucket] > 0) {
+            keys.push(bucket);
+        }
+    }
+    return { counts, sums, keys: Int32Array.from(keys), transparent };
+};
+
+const measureBox = (histogram: ColorHistogram, start: number, end: number): ColorBox => {
+    const min = [CHANNEL_MASK, CHANNEL_MASK, CHANNEL_MASK, CHANNEL_MASK];
+    const max = [0, 0, 0, 0];
+    let population = 0;
+    for (let i = start; i < end; i++) {
+        const bucket = histogram.keys[i];
+        population += histogram.counts[bucket];
+        for (let channel = 0; channel < 4; channel++) {
+            const value = getChannel(bucket, channel);
+            if (value < min[channel]) min[channel] = value;
+            if (value > max[channel]) max[channel] = value;
+        }
+    }
+    let channel = 0;
+    for (let c = 1; c < 4; c++) {
+        if (max[c] - min[c] > max[channel] - min[channel]) {
+            channel = c;
+        }
+    }
+    return { start, end, population, channel, spread: max[channel] - min[channel] };
+};
+
+/** Splits a box at the pixel-weighted median of its widest channel. */
+const splitBox = (histogram: ColorHistogram, box: ColorBox): [ColorBox, ColorBox] => {
+    const { keys, counts } = histogram;
+    keys.subarray(box.start, box.end).sort((a, b) => getChannel(a, box.channel) - getChannel(b, box.channel));
+    let seen = 0;
+    let split = box.start + 1;
+    for (let i = box.start; i < box.end - 1; i++) {
+        seen += counts[keys[i]];
+        split = i + 1;
+        if (seen * 2 >= box.population) {
+            break;
+        }
+    }
+    return [measureBox(histogram, box.start, split), measureBox(histogram, split, box.end)];
+};
+
+/**
+ * Median-cut palette of at most `maxColors` entries, transparent and translucent colors first
+ * so the tRNS chunk stays short. Returned as RGBA quads.
+ */
+const buildPalette = (histogram: ColorHistogram, maxColors: number): Uint8Array => {
+    const colors: number[][] = [];
+    if (histogram.transparent > 0) {
+        colors.push([0, 0, 0, 0]);
+    }
+    const boxes: ColorBox[] = histogram.keys.length ? [measureBox(histogram, 0, histogram.keys.length)] : [];
+    while (boxes.length + colors.length < maxColors) {
+        // Busy, spread-out boxes are split first; that is where a single color looks worst
+        let target = -1;
+        for (let i = 0; i < boxes.length; i++) {
+            const box = boxes[i];
+            if (box.end - box.start > 1 && box.spread > 0
+                && (target < 0 || box.population * box.spread > boxes[target].population * boxes[target].spread)) {
+                target = i;
+            }
+        }
+        if (target < 0) {
+            break;
+        }
+        boxes.splice(target, 1, ...splitBox(histogram, boxes[target]));
+    }
+
+    for (const box of boxes) {
+        const total = [0, 0, 0, 0];
+        for (let i = box.start; i < box.end; i++) {
+            const bucket = histogram.keys[i];
+            for (let channel = 0; channel < 4; channel++) {
+                total[channel] += histogram.sums[bucket * 4 + channel];
+            }
+        }
+        colors.push(total.map(sum => Math.round(sum / box.population)));
+    }
+    colors.sort((a, b) => a[3] - b[3]);
+    return Uint8Array.from(colors.flat());
+};
+
+/** Maps every pixel to its nearest palette entry, looking each color bucket up once. */
+const mapToPalette = (image: RgbaImage, histogram: ColorHistogram, palette: Uint8Array): Uint8Array => {
+    const colorCount = palette.length / 4;
+    const transparentIndex = palette[3] === 0 ? 0 : -1;
+    const lookup = new Uint8Array(BUCKET_COUNT);
+    for (const bucket of histogram.keys) {
+        const count = histogram.counts[bucket];
+        const color = [0, 1, 2, 3].map(channel => histogram.sums[bucket * 4 + channel] / count);
+        let nearest = 0;
+        let nearestDistance = Infinity;
+        for (let index = 0; index < colorCount; index++) {
+            if (index === transparentIndex) {
+                continue;
+            }
+            let distance = 0;
+            for (let channel = 0; channel < 4; channel++) {
+                const delta = color[channel] - palette[index * 4 + channel];
+                distance += delta * delta;
+            }
+            if (distance < nearestDistance) {
+                nearest = index;
+                nearestDistance = distance;
+            }
+        }
+        lookup[bucket] = nearest;
+    }
+
+    const { data } = image;
+    const indices = new Uint8Array(data.length / 4);
+    for (let i = 0, pixel = 0; i < data.length; i += 4, pixel++) {
+        indices[pixel] = data[i + 3] === 0 ? Math.max(transparentIndex, 0) : lookup[toBucket(data[i], data[i + 1], data[i + 2], data[i + 3])];
+    }
+    return indices;
+};
+
+// --- PNG writing ---
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(data.length + 12);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) {
+        chunk[4 + i] = type.charCodeAt(i);
+    }
+    chunk.set(data, 8);
+    view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+    return chunk;
+};
+
+const zlibCompress = async (data: Uint8Array): Promise<Uint8Array> => {
+    // The 'deflate' format of CompressionStream is the zlib wrapper PNG expects
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Packs palette indices into filterless scanlines at the smallest bit depth the palette allows. */
+const packScanlines = (indices: Uint8Array, width: number, height: number, bitDepth: number): Uint8Array => {
+    const rowBytes = Math.ceil((width * bitDepth) / 8);
+    const pixelsPerByte = 8 / bitDepth;
+    const rows = new Uint8Array((rowBytes + 1) * height); // Each row starts with filter type 0
+    for (let y = 0; y < height; y++) {
+        const rowStart = y * (rowBytes + 1) + 1;
+        for (let x = 0; x < width; x++) {
+            const shift = 8 - bitDepth * ((x % pixelsPerByte) + 1);
+            rows[rowStart + Math.floor(x / pixelsPerByte)] |= indices[y * width + x] << shift;
+        }
+    }
+    return rows;
+};
+
+const writeIndexedPng = async (width: number, height: number, palette: Uint8Array, indices: Uint8Array): Promise<Blob> => {
+    const colorCount = palette.length / 4;
+    const bitDepth = colorCount <= 2 ? 1 : colorCount <= 4 ? 2 : colorCount <= 16 ? 4 : 8;
+
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width);
+    headerView.setUint32(4, height);
+    header.set([bitDepth, PNG_COLOR_TYPE_INDEXED, 0, 0, 0], 8);
+
+    const rgb = new Uint8Array(colorCount * 3);
+    const alpha: number[] = [];
+    for (let i = 0; i < colorCount; i++) {
+        rgb.set(palette.subarray(i * 4, i * 4 + 3), i * 3);
+        if (palette[i * 4 + 3] < 255) {
+            alpha.push(palette[i * 4 + 3]);
+        }
+    }
+
+    const chunks = [
+        Uint8Array.from(PNG_SIGNATURE),
+        createChunk('IHDR', header),
+        createChunk('PLTE', rgb),
+        // Translucent entries come first in the palette, so the opaque rest can be left out
+        ...(alpha.length ? [createChunk('tRNS', Uint8Array.from(alpha))] : []),
+        createChunk('IDAT', await zlibCompress(packScanlines(indices, width, height, bitDepth))),
+        createChunk('IEND', new Uint8Array(0)),
+    ];
+    return new Blob(chunks, { type: 'image/png' });
+};
+
+/**
+ * Encodes an image as an indexed PNG with at most `maxColors` colors. Pass the same histogram
+ * when trying several palette sizes on one image.
+ */
+export const encodePalettePng = async (
+    image: RgbaImage,
+    maxColors: number,
+    histogram: ColorHistogram = createColorHistogram(image)
+): Promise<{ blob: Blob; colors: number }> => {
+    const palette = buildPalette(histogram, Math.max(1, Math.min(256, maxColors)));
+    if (palette.length === 0) {
+        // An empty canvas still needs one palette entry
+        return { blob: await writeIndexedPng(image.width, image.height, new Uint8Array(4), new Uint8Array(image.width * image.height)), colors: 1 };
+    }
+    const indices = mapToPalette(image, histogram, palette);
+    return { blob: await writeIndexedPng(image.width, image.height, palette, indices), colors: palette.length / 4 };
+};
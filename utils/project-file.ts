@@ -0,0 +1,362 @@
+import JSZip from 'jszip';
+import type {
+    CharacterImage, Expression, ExpressionPromptNotes, GenerationErrorKind, ImageMeta, Language, RefinementTurn, Sticker,
+    StickerError, StickerStatus, StickerVariant, StickerVersion, StickerVersionKind, StoredProject, TransparencyOptions,
+} from '../types';
+import { DEFAULT_PROJECT_SETTINGS, PROJECT_SCHEMA_VERSION, collectStrings, isDataUrl, mapStrings } from './project-store';
+
+const PROJECT_FILE_FORMAT = 'stickerme-project';
+const PROJECT_MANIFEST_PATH = 'project.json';
+const PROJECT_IMAGE_FOLDER = 'images';
+export const PROJECT_FILE_EXTENSION = '.stickerme';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+};
+
+export type ProjectFileErrorReason = 'invalid' | 'newerVersion';
+
+export class ProjectFileError extends Error {
+    reason: ProjectFileErrorReason;
+
+    constructor(reason: ProjectFileErrorReason, details?: string) {
+        super(details ? `${reason}: ${details}` : reason);
+        this.name = 'ProjectFileError';
+        this.reason = reason;
+    }
+}
+
+/** project.json: the project with every image replaced by its path inside the ZIP. */
+type ProjectManifest = {
+    format: typeof PROJECT_FILE_FORMAT;
+    version: number; // The StoredProject schema version the project was written with
+    exportedAt: number;
+    images: Record<string, string>; // ZIP path -> MIME type
+    project: StoredProject;
+};
+
+type ProjectData = Record<string, unknown>;
+type ProjectMigration = (project: ProjectData) => ProjectData;
+
+const STICKER_STATUSES: StickerStatus[] = ['idle', 'queued', 'running', 'retrying', 'done', 'error'];
+const VERSION_KINDS: StickerVersionKind[] = ['generated', 'regenerated', 'variant', 'transparency', 'revert', 'imported'];
+const ERROR_KINDS: GenerationErrorKind[] = [
+    'quotaExceeded', 'rateLimited', 'invalidKey', 'offline', 'network', 'serverError', 'promptBlocked', 'imageBlocked',
+    'noImage', 'imageDecode', 'transparency', 'unknown',
+];
+const TRANSPARENCY_MODES: NonNullable<TransparencyOptions['mode']>[] = ['auto', 'seed', 'auto+seed'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const asNullableString = (value: unknown): string | null => asString(value) ?? null;
+
+const asNumber = (value: unknown, fallback: number): number =>
+    (typeof value === 'number' && Number.isFinite(value) ? value : fallback);
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const isPresent = <T>(value: T | null): value is T => value !== null;
+
+const toLabels = (value: unknown): Expression['labels'] => {
+    if (!isRecord(value)) {
+        return undefined;
+    }
+    const labels: Partial<Record<Language, string>> = {};
+    (['sw', 'en'] as Language[]).forEach(lang => {
+        const label = asString(value[lang]);
+        if (label) labels[lang] = label;
+    });
+    return Object.keys(labels).length ? labels : undefined;
+};
+
+const toPromptNotes = (value: unknown): ExpressionPromptNotes | undefined =>
+    (isRecord(value)
+        ? { pose: asString(value.pose), props: asString(value.props), framing: asString(value.framing) }
+        : undefined);
+
+const toExpression = (value: unknown): Expression | null => {
+    if (!isRecord(value)) {
+        return null;
+    }
+    return {
+        id: asString(value.id) || crypto.randomUUID(),
+        emoji: asString(value.emoji) ?? '🙂',
+        label: asString(value.label) ?? '',
+        labels: toLabels(value.labels),
+        type: value.type === 'expressive' ? 'expressive' : 'plain',
+        isDefault: Boolean(value.isDefault),
+        exclusions: asString(value.exclusions),
+        promptNotes: toPromptNotes(value.promptNotes),
+        category: asString(value.category),
+    };
+};
+
+const toImage = (value: unknown): CharacterImage | null => {
+    if (!isRecord(value) || typeof value.data !== 'string') {
+        return null;
+    }
+    return {
+        data: value.data,
+        mimeType: asString(value.mimeType) ?? getMimeType(value.data),
+        width: asNumber(value.width, 0),
+        height: asNumber(value.height, 0),
+        byteSize: asNumber(value.byteSize, 0),
+    };
+};
+
+const toImageMeta = (value: unknown): ImageMeta | null =>
+    (isRecord(value)
+        ? { width: asNumber(value.width, 0), height: asNumber(value.height, 0), byteSize: asNumber(value.byteSize, 0) }
+        : null);
+
+// Settings missing a tuning value cannot be reapplied, so they count as a kept background
+const toTransparencyOptions = (value: unknown): TransparencyOptions | null => {
+    if (!isRecord(value)) {
+        return null;
+    }
+    const { colorTol, tileGuess, gradKeep, feather } = value;
+    if (typeof colorTol !== 'number' || typeof tileGuess !== 'number' || typeof gradKeep !== 'number' || typeof feather !== 'number') {
+        return null;
+    }
+    const seedPoints = Array.isArray(value.seedPoints)
+        ? value.seedPoints
+            .filter((seed): seed is Record<string, unknown> =>
+                isRecord(seed) && typeof seed.x === 'number' && typeof seed.y === 'number')
+            .map(seed => ({ x: seed.x as number, y: seed.y as number, force: seed.force === true || undefined }))
+        : undefined;
+    return {
+        colorTol,
+        tileGuess,
+        gradKeep,
+        feather,
+        seedPoints,
+        mode: TRANSPARENCY_MODES.find(mode => mode === value.mode),
+        maxDimension: typeof value.maxDimension === 'number' ? value.maxDimension : undefined,
+    };
+};
+
+const toStickerError = (value: unknown): StickerError | undefined =>
+    (isRecord(value)
+        ? { kind: ERROR_KINDS.find(kind => kind === value.kind) ?? 'unknown', details: asString(value.details) }
+        : undefined);
+
+const toVariant = (value: unknown): StickerVariant | null => {
+    if (!isRecord(value) || typeof value.imageUrl !== 'string') {
+        return null;
+    }
+    return {
+        imageUrl: value.imageUrl,
+        originalImageUrl: asString(value.originalImageUrl) ?? value.imageUrl,
+        imageMeta: toImageMeta(value.imageMeta) ?? { width: 0, height: 0, byteSize: 0 },
+        prompt: asString(value.prompt) ?? '',
+        feedback: asString(value.feedback),
+        transparencyOptions: toTransparencyOptions(value.transparencyOptions),
+        error: toStickerError(value.error),
+    };
+};
+
+const toVersion = (value: unknown): StickerVersion | null => {
+    const variant = toVariant(value);
+    if (!variant || !isRecord(value) || typeof value.id !== 'string') {
+        return null;
+    }
+    return {
+        id: value.id,
+        kind: VERSION_KINDS.find(kind => kind === value.kind) ?? 'generated',
+        createdAt: asNumber(value.createdAt, 0),
+        imageUrl: variant.imageUrl,
+        originalImageUrl: variant.originalImageUrl,
+        imageMeta: variant.imageMeta,
+        prompt: variant.prompt,
+        feedback: variant.feedback,
+        transparencyOptions: variant.transparencyOptions,
+        revertedFrom: asString(value.revertedFrom),
+    };
+};
+
+const toRefinementTurn = (value: unknown): RefinementTurn | null => {
+    if (!isRecord(value) || typeof value.id !== 'string') {
+        return null;
+    }
+    return {
+        id: value.id,
+        parentId: asNullableString(value.parentId),
+        feedback: asString(value.feedback) ?? '',
+        baseVersionId: asNullableString(value.baseVersionId),
+        resultVersionId: asNullableString(value.resultVersionId),
+        createdAt: asNumber(value.createdAt, 0),
+    };
+};
+
+/**
+ * Stickers keep their generation history, rebuilt entry by entry; entries without an image
+ * are dropped, as is a sticker without an id, which cannot be matched to its expression.
+ */
+const toSticker = (value: unknown): Sticker | null => {
+    const expression = toExpression(value);
+    if (!expression || !isRecord(value) || typeof value.id !== 'string') {
+        return null;
+    }
+    const variants = asArray(value.variants).map(toVariant).filter(isPresent);
+    const selectedVariant = asNumber(value.selectedVariant, -1);
+    const imageUrl = asNullableString(value.imageUrl);
+    return {
+        ...expression,
+        imageUrl,
+        originalImageUrl: asNullableString(value.originalImageUrl),
+        status: STICKER_STATUSES.find(status => status === value.status) ?? (imageUrl ? 'done' : 'idle'),
+        imageMeta: toImageMeta(value.imageMeta),
+        variants,
+        selectedVariant: selectedVariant >= 0 && selectedVariant < variants.length ? selectedVariant : variants.length - 1,
+        versions: asArray(value.versions).map(toVersion).filter(isPresent),
+        currentVersionId: asNullableString(value.currentVersionId),
+        refinements: asArray(value.refinements).map(toRefinementTurn).filter(isPresent),
+        error: toStickerError(value.error),
+    };
+};
+
+/** Rebuilds every field of an imported project, keeping what is well-formed and defaulting the rest. */
+const toStoredProject = (project: ProjectData): StoredProject => {
+    const settings = isRecord(project.settings) ? project.settings : {};
+    return {
+        id: '',
+        version: PROJECT_SCHEMA_VERSION,
+        name: asString(project.name) ?? '',
+        updatedAt: asNumber(project.updatedAt, 0),
+        thumbnail: asString(project.thumbnail) ?? null,
+        userImage: toImage(project.userImage),
+        originalFilename: asString(project.originalFilename) ?? null,
+        styleReference: toImage(project.styleReference),
+        expressions: asArray(project.expressions).map(toExpression).filter(isPresent),
+        categories: asArray(project.categories)
+            .filter((category): category is Record<string, unknown> =>
+                isRecord(category) && typeof category.id === 'string' && typeof category.name === 'string')
+            .map(category => ({ id: category.id as string, name: category.name as string })),
+        collapsedSections: asArray(project.collapsedSections).filter((id): id is string => typeof id === 'string'),
+        settings: {
+            artisticStyle: asString(settings.artisticStyle) ?? DEFAULT_PROJECT_SETTINGS.artisticStyle,
+            exclusions: asString(settings.exclusions) ?? DEFAULT_PROJECT_SETTINGS.exclusions,
+            backgroundColor: asString(settings.backgroundColor) ?? DEFAULT_PROJECT_SETTINGS.backgroundColor,
+            transparentBackground: typeof settings.transparentBackground === 'boolean'
+                ? settings.transparentBackground
+                : DEFAULT_PROJECT_SETTINGS.transparentBackground,
+        },
+        stickers: asArray(project.stickers).map(toSticker).filter(isPresent),
+    };
+};
+
+/**
+ * Upgrades a project by one schema version, keyed by the version it starts from.
+ * Bumping PROJECT_SCHEMA_VERSION needs an entry here so older files keep opening.
+ */
+const PROJECT_MIGRATIONS: Record<number, ProjectMigration> = {
+    // v1 held only the photo and stickers; each sticker still carries its expression
+    1: project => ({
+        ...project,
+        version: 2,
+        expressions: project.expressions ?? asArray(project.stickers).map(toExpression).filter(isPresent),
+    }),
+};
+
+const migrateToCurrent = (project: ProjectData, fromVersion: number): StoredProject => {
+    let migrated: ProjectData = { ...project, version: fromVersion };
+    let version = fromVersion;
+    while (version < PROJECT_SCHEMA_VERSION) {
+        const migrate = PROJECT_MIGRATIONS[version];
+        if (!migrate) {
+            throw new ProjectFileError('invalid', `No migration from version ${version}`);
+        }
+        migrated = migrate(migrated);
+        version = asNumber(migrated.version, PROJECT_SCHEMA_VERSION);
+    }
+    // Whatever the file lacks or gets wrong falls back to the same defaults as a new project
+    return toStoredProject(migrated);
+};
+
+const getMimeType = (dataUrl: string): string => dataUrl.slice(5, dataUrl.indexOf(';')) || 'image/png';
+
+/** Bundles a project and every image it references into a single ZIP. */
+export const exportProjectFile = async (project: StoredProject): Promise<Blob> => {
+    const zip = new JSZip();
+    const dataUrls = new Set<string>();
+    collectStrings(project, isDataUrl, dataUrls);
+
+    // Versions, variants and the displayed image usually share data URLs, so each is written once
+    const paths = new Map<string, string>();
+    const images: Record<string, string> = {};
+    let index = 0;
+    dataUrls.forEach(dataUrl => {
+        const mimeType = getMimeType(dataUrl);
+        const path = `${PROJECT_IMAGE_FOLDER}/${String(++index).padStart(3, '0')}.${IMAGE_EXTENSIONS[mimeType] ?? 'bin'}`;
+        paths.set(dataUrl, path);
+        images[path] = mimeType;
+        zip.file(path, dataUrl.slice(dataUrl.indexOf(',') + 1), { base64: true });
+    });
+
+    const manifest: ProjectManifest = {
+        format: PROJECT_FILE_FORMAT,
+        version: project.version,
+        exportedAt: Date.now(),
+        images,
+        project: mapStrings(project, text => paths.get(text) ?? text) as StoredProject,
+    };
+    zip.file(PROJECT_MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+/**
+ * Reads a project file back, migrating it to the current schema. The project keeps the id
+ * it was exported with; callers give it a new one so it never replaces a local project.
+ */
+export const importProjectFile = async (file: Blob): Promise<StoredProject> => {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch (err) {
+        throw new ProjectFileError('invalid', 'Not a ZIP archive');
+    }
+    const manifestFile = zip.file(PROJECT_MANIFEST_PATH);
+    if (!manifestFile) {
+        throw new ProjectFileError('invalid', `Missing ${PROJECT_MANIFEST_PATH}`);
+    }
+
+    let manifest: Partial<ProjectManifest>;
+    try {
+        manifest = JSON.parse(await manifestFile.async('string'));
+    } catch (err) {
+        throw new ProjectFileError('invalid', `Unreadable ${PROJECT_MANIFEST_PATH}`);
+    }
+    if (manifest?.format !== PROJECT_FILE_FORMAT || !manifest.project || typeof manifest.project !== 'object') {
+        throw new ProjectFileError('invalid', 'Not a StickerMe project');
+    }
+    const version = typeof manifest.version === 'number' ? manifest.version : 1;
+    if (version > PROJECT_SCHEMA_VERSION) {
+        throw new ProjectFileError('newerVersion', `Version ${version}`);
+    }
+
+    const images = manifest.images && typeof manifest.images === 'object' ? manifest.images : {};
+    const dataUrls = new Map<string, string>();
+    await Promise.all(Object.entries(images).map(async ([path, mimeType]) => {
+        const image = zip.file(path);
+        if (image) {
+            dataUrls.set(path, `data:${mimeType};base64,${await image.async('base64')}`);
+        }
+    }));
+
+    // An image missing from the archive comes back as null, like a sticker that was never generated
+    const project = mapStrings(manifest.project, text =>
+        Object.prototype.hasOwnProperty.call(images, text) ? dataUrls.get(text) ?? null : text);
+    if (!isRecord(project)) {
+        throw new ProjectFileError('invalid', 'Project is not an object');
+    }
+    if (!Array.isArray(project.stickers) || (project.expressions !== undefined && !Array.isArray(project.expressions))) {
+        throw new ProjectFileError('invalid', 'Project has no sticker list');
+    }
+    return migrateToCurrent(project, version);
+};
@@ -0,0 +1,289 @@
+import type { ProjectSettings, ProjectSummary, StorageEstimate, StoredProject } from '../types';
+import { blobToDataUrl, dataUrlToBlob } from './image';
+
+const DB_NAME = 'stickerMe';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+const IMAGE_STORE = 'images';
+const IMAGE_REF_PREFIX = 'idb-image:';
+
+// v1 held only the images and stickers; v2 also holds the expressions and look settings.
+export const PROJECT_SCHEMA_VERSION = 2;
+// The project that single-project sessions were migrated into.
+export const DEFAULT_PROJECT_ID = 'current';
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+    artisticStyle: '',
+    exclusions: '',
+    backgroundColor: '#FFFFFF',
+    transparentBackground: true,
+};
+
+type ProjectRecord = StoredProject & {
+    imageKeys: string[]; // Every image the record references, for clean-up
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+                    db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+                    db.createObjectStore(IMAGE_STORE);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new DOMException('Aborted', 'AbortError'));
+    });
+
+// --- Image references ---
+// Variants, versions and the displayed image usually share the same data URLs, so images are
+// stored once under a content hash and the project record only holds references.
+const getImageKey = async (dataUrl: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(dataUrl));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const collectStrings = (value: unknown, matches: (text: string) => boolean, found: Set<string>) => {
+    if (typeof value === 'string') {
+        if (matches(value)) {
+            found.add(value);
+        }
+    } else if (Array.isArray(value)) {
+        value.forEach(item => collectStrings(item, matches, found));
+    } else if (value && typeof value === 'object') {
+        Object.values(value).forEach(item => collectStrings(item, matches, found));
+    }
+};
+
+export const mapStrings = (value: unknown, replace: (text: string) => unknown): unknown => {
+    if (typeof value === 'string') {
+        return replace(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => mapStrings(item, replace));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, replace)]));
+    }
+    return value;
+};
+
+export const isDataUrl = (text: string) => text.startsWith('data:');
+
+// --- Writes ---
+// Every write goes through one chain so a slow save can never land after a newer one, and
+// the image clean-up of one write never runs between another write's checks and puts.
+let writeChain: Promise<void> = Promise.resolve();
+
+const runInOrder = (write: () => Promise<void>): Promise<void> => {
+    const result = writeChain.catch(() => undefined).then(write);
+    writeChain = result;
+    return result;
+};
+
+/** Queues image deletions for everything no project references, within the caller's transaction. */
+const removeUnusedImages = (transaction: IDBTransaction) => {
+    const projectsRequest = transaction.objectStore(PROJECT_STORE).getAll();
+    projectsRequest.onsuccess = () => {
+        const used = new Set((projectsRequest.result as ProjectRecord[]).flatMap(record => record.imageKeys ?? []));
+        const imageStore = transaction.objectStore(IMAGE_STORE);
+        const keysRequest = imageStore.getAllKeys();
+        keysRequest.onsuccess = () => {
+            keysRequest.result.forEach(key => {
+                if (!used.has(String(key))) {
+                    imageStore.delete(key);
+                }
+            });
+        };
+    };
+};
+
+const writeProject = async (project: StoredProject): Promise<void> => {
+    const db = await openDatabase();
+    const dataUrls = new Set<string>();
+    collectStrings({ ...project, thumbnail: null }, isDataUrl, dataUrls);
+    // Hashing is asynchronous, so it has to finish before the transaction opens
+    const keys = new Map<string, string>();
+    for (const dataUrl of dataUrls) {
+        keys.set(dataUrl, await getImageKey(dataUrl));
+    }
+    const record: ProjectRecord = {
+        ...(mapStrings(project, text => (keys.has(text) ? IMAGE_REF_PREFIX + keys.get(text) : text)) as StoredProject),
+        thumbnail: project.thumbnail, // Inline so the project list never has to read the image store
+        imageKeys: [...new Set(keys.values())],
+    };
+
+    const transaction = db.transaction([PROJECT_STORE, IMAGE_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    const imageStore = transaction.objectStore(IMAGE_STORE);
+    const keysRequest = imageStore.getAllKeys();
+    keysRequest.onsuccess = () => {
+        const storedKeys = new Set(keysRequest.result.map(String));
+        keys.forEach((key, dataUrl) => {
+            if (!storedKeys.has(key)) {
+                imageStore.put(dataUrlToBlob(dataUrl), key);
+                storedKeys.add(key);
+            }
+        });
+        transaction.objectStore(PROJECT_STORE).put(record);
+        removeUnusedImages(transaction);
+    };
+    await done;
+};
+
+// Snapshots still waiting for their turn, by project id; a newer one simply replaces the older
+const waitingSaves = new Map<string, { project: StoredProject; result: Promise<void> }>();
+
+/**
+ * Writes a project, storing each distinct image once and dropping images nothing uses any more.
+ * Saves run one at a time; while one is running, only the newest snapshot of each project waits.
+ */
+export const saveProject = (project: StoredProject): Promise<void> => {
+    const waiting = waitingSaves.get(project.id);
+    if (waiting) {
+        waiting.project = project;
+        return waiting.result;
+    }
+    const entry = { project, result: Promise.resolve() };
+    entry.result = runInOrder(() => {
+        waitingSaves.delete(project.id);
+        return writeProject(entry.project);
+    });
+    waitingSaves.set(project.id, entry);
+    return entry.result;
+};
+
+/** Reads a project back with its images as data URLs, or null when none was saved. */
+export const loadProject = async (id: string): Promise<StoredProject | null> => {
+    const db = await openDatabase();
+    const record = await requestToPromise<ProjectRecord | undefined>(db.transaction(PROJECT_STORE).objectStore(PROJECT_STORE).get(id));
+    if (!record) {
+        return null;
+    }
+
+    const imageStore = db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE);
+    const blobs = await Promise.all((record.imageKeys ?? []).map(key => requestToPromise<Blob | undefined>(imageStore.get(key))));
+    const dataUrls = new Map<string, string>();
+    await Promise.all(blobs.map(async (blob, index) => {
+        if (blob) {
+            dataUrls.set(record.imageKeys[index], await blobToDataUrl(blob));
+        }
+    }));
+
+    // A reference whose image went missing comes back as null, like a sticker that was never generated
+    const { imageKeys, ...project } = mapStrings(record, text =>
+        text.startsWith(IMAGE_REF_PREFIX) ? dataUrls.get(text.slice(IMAGE_REF_PREFIX.length)) ?? null : text) as ProjectRecord;
+    return migrateProject(project);
+};
+
+/**
+ * Fills fields that older records lack. The version is left as stored so callers can
+ * tell a v1 record apart and take its expressions and settings from the old session.
+ */
+export const migrateProject = (project: Partial<StoredProject> & { id: string }): StoredProject => ({
+    version: 1,
+    name: '',
+    updatedAt: 0,
+    thumbnail: null,
+    userImage: null,
+    originalFilename: null,
+    styleReference: null,
+    expressions: [],
+    categories: [],
+    collapsedSections: [],
+    settings: DEFAULT_PROJECT_SETTINGS,
+    stickers: [],
+    ...project,
+});
+
+/** Lists every saved project, most recently changed first, without reading any images. */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+    const db = await openDatabase();
+    const records = await requestToPromise<ProjectRecord[]>(db.transaction(PROJECT_STORE).objectStore(PROJECT_STORE).getAll());
+    return records
+        .map(record => ({
+            id: record.id,
+            name: record.name ?? '',
+            updatedAt: record.updatedAt ?? 0,
+            thumbnail: record.thumbnail ?? null,
+            stickerCount: (record.stickers ?? []).filter(sticker => sticker.imageUrl).length,
+        }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+const updateProjectRecord = (id: string, update: (record: ProjectRecord) => ProjectRecord) => runInOrder(async () => {
+    const db = await openDatabase();
+    const transaction = db.transaction(PROJECT_STORE, 'readwrite');
+    const done = transactionDone(transaction);
+    const store = transaction.objectStore(PROJECT_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+        if (request.result) {
+            store.put(update(request.result as ProjectRecord));
+        }
+    };
+    await done;
+});
+
+export const renameProject = (id: string, name: string): Promise<void> =>
+    updateProjectRecord(id, record => ({ ...record, name }));
+
+/** Copies a project under a new id; both copies share the stored images. */
+export const duplicateProject = (id: string, copyId: string, name: string): Promise<void> =>
+    updateProjectRecord(id, record => ({ ...record, id: copyId, name, updatedAt: Date.now() }));
+
+export const deleteProject = (id: string): Promise<void> => runInOrder(async () => {
+    const db = await openDatabase();
+    const transaction = db.transaction([PROJECT_STORE, IMAGE_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    transaction.objectStore(PROJECT_STORE).delete(id).onsuccess = () => removeUnusedImages(transaction);
+    await done;
+});
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+        return null;
+    }
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+};
+
+/** Asks the browser not to evict saved projects under storage pressure. */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    if (typeof navigator === 'undefined' || !navigator.storage?.persist) {
+        return false;
+    }
+    return (await navigator.storage.persisted()) || navigator.storage.persist();
+};
+
+export const isQuotaExceededError = (error: unknown): boolean =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
@@ -1,57 +1,146 @@
-import type { Expression, Translations } from '../types';
+import type { Expression, Language, PromptRefinement, PromptSettings, PromptTemplates, Translations } from '../types';
 
-export const generatePrompt = (
+// Splits free-text exclusion lists and drops duplicates, keeping the first spelling.
+export const parseExclusions = (...sources: (string | undefined)[]): string[] => {
+    const seen = new Set<string>();
+    const items: string[] = [];
+    for (const source of sources) {
+        for (const raw of (source ?? '').split(/[,\n;]/)) {
+            const item = raw.trim();
+            if (item && !seen.has(item.toLowerCase())) {
+                seen.add(item.toLowerCase());
+                items.push(item);
+            }
+        }
+    }
+    return items;
+};
+
+/**
+ * Resolves an expression's label in one language. Default expressions go through
+ * translations.json; custom ones fall back to the text they were first entered with.
+ */
+export const getExpressionLabelIn = (expression: Expression, language: Language, translations: Translations): string => {
+    if (expression.isDefault) {
+        return translations?.[language]?.[expression.label] || expression.label; // Fallback to key if not found
+    }
+    return expression.labels?.[language]?.trim() || expression.label;
+};
+
+const CAPTION_LANGUAGE_NAMES: Record<Language, string> = { sw: 'Swahili', en: 'English' };
+
+/**
+ * Templates behind every prompt. `{name}` placeholders are filled from the sections built
+ * by `buildPromptSections`; unknown placeholders are left untouched so typos stay visible.
+ */
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplates = {
+    fresh: 'Generate a 512x512 PNG sticker featuring the same character showing a "{label}" expression. {imageRoles} {framing} {notes} {caption} {style} {optimisation} Ensure the subject remains centred, fully inside the frame, and maintains consistent skin tone, clothing, and hairstyle with previous stickers from the user photo reference. The sticker must have {background}. {outline} {exclusions} Keep the edges sharp with minimal anti-aliasing to support clean background removal. Output a single PNG image and nothing else.',
+    refinement: `You are an expert AI image editor. You will receive {inputs}.
+        {imageRoles}
+        Your task is to EDIT the sticker based on this user feedback: "{feedback}".
+        {history}
+        Refine the sticker while keeping the character's identity (from the source photo) and the overall "{label}" expression consistent.
+        {style} The sticker must have {background}. {outline}
+        {notes}
+        {caption}
+        {exclusions}
+        Ensure the subject remains centred, fully inside the 512x512 PNG frame, and maintains consistent skin tone, clothing, and hairstyle with the source photo.
+        Keep the edges sharp with minimal anti-aliasing to support clean background removal.
+        Output a single, updated PNG image and nothing else.`,
+};
+
+export const PROMPT_TEMPLATE_PLACEHOLDERS = [
+    'label', 'caption', 'imageRoles', 'framing', 'notes', 'style', 'optimisation', 'background', 'outline', 'exclusions', 'inputs', 'feedback', 'history',
+] as const;
+
+export type PromptSections = Record<typeof PROMPT_TEMPLATE_PLACEHOLDERS[number], string>;
+
+export const buildPromptSections = (
     expression: Expression,
-    artisticStyle: string,
-    transparentBackground: boolean,
-    backgroundColor: string,
+    settings: PromptSettings,
     translations: Translations,
-    feedback?: string
-): string => {
-    const styleMap: Record<string, string> = {
-        Anime: 'a vibrant anime/manga cel-shaded style with bold, tidy linework',
-        '3D Render': 'a polished, well-lit 3D render style similar to contemporary animated features',
-        'Photo-realistic': 'a photo-realistic style that looks like a professional studio photograph',
-    };
-    const styleInstruction = styleMap[artisticStyle] ?? 'a cohesive, high-quality illustration style';
+    refinement?: PromptRefinement
+): PromptSections => {
+    const { style, transparentBackground, backgroundColor, hasStyleReference, captionLanguage } = settings;
+    const styleInstruction = style.instruction.trim();
+
+    // With a style reference the model receives two images of people/art; name their roles so
+    // the face never comes from the reference and the look never comes from the photo.
+    const imageRolesInstruction = hasStyleReference
+        ? 'The first image is the IDENTITY SOURCE: take the character\'s face, skin tone, hairstyle, and clothing from it, but not its photographic look. The second image is the STYLE SOURCE: copy only its rendering technique, colour palette, line quality, and shading — never its subject, face, pose, text, or composition.'
+        : '';
+    const styleSentence = hasStyleReference
+        ? `The artistic style MUST match the STYLE SOURCE image, using ${styleInstruction} only for anything the reference does not show.`
+        : `The artistic style MUST be ${styleInstruction}.`;
 
     const backgroundInstruction = transparentBackground
         ? 'the background must be 100% transparent with a real alpha channel—no checkerboard simulation, halo, glow, or drop shadow'
         : `fill the entire background with the flat, solid hex colour ${backgroundColor}. Do not add gradients, lighting flares, textures, sparkles, text, or extra graphics`;
 
-    const outlineInstruction = `Create a digital sticker outline in a cohesive pack style. 
+    const outlineInstruction = style.outline?.trim() || `Create a digital sticker outline in a cohesive pack style. 
     The design must feature: A clean subject cutout with smooth edges. A consistent medium-thick white outline (around 4 px) that fully surrounds the subject — no edge of the subject should touch the canvas border. 
     Around the white outline, add a thin medium-gray border (1 px) to ensure contrast on both white and transparent backgrounds. 
     Maintain equal outline thickness on all sides — no tapered or faded edges. 
     No directional shadows or blurs; only the clean double-outline effect (white + thin gray).`;
 
+    // The expression's own camera note beats the style's framing, which beats the per-type default
+    const notes = expression.promptNotes;
     const framingInstruction =
-        expression.type === 'plain'
+        notes?.framing?.trim() || style.framing?.trim() || (expression.type === 'plain'
             ? 'Use a chest-up crop that keeps the pose natural, centred, and evenly padded on all sides.'
-            : 'Use a dynamic, meme-ready pose that stays centred with even padding; keep the entire body portion visible and avoid extra props or text.';
+            : 'Use a dynamic, meme-ready pose that stays centred with even padding; keep the entire body portion visible and avoid extra props or any text other than the caption.');
 
-    const getEnglishLabel = (exp: Expression) => {
-        if (!exp.isDefault) {
-            return exp.label; // Custom labels are literal strings
-        }
-        // For default expressions, get the English translation from the key
-        return translations?.en?.[exp.label] || exp.label; // Fallback to key if not found
-    };
-    const englishLabel = getEnglishLabel(expression);
+    const noteInstruction = [
+        notes?.pose?.trim() && `Pose: ${notes.pose.trim()}.`,
+        notes?.props?.trim() && `Include these props: ${notes.props.trim()}.`,
+    ].filter(Boolean).join(' ');
 
-    const optimisationNote =
-        'Optimise the artwork for use as a WhatsApp chat sticker so it reads clearly at small size and removes cleanly with transparency tools.';
+    // The model reasons about the English meaning, but the words drawn on the sticker follow the display language
+    const captionInstruction = expression.type === 'expressive'
+        ? `Add the caption "${getExpressionLabelIn(expression, captionLanguage, translations)}" (${CAPTION_LANGUAGE_NAMES[captionLanguage]}) in bold, highly legible lettering inside the outline, spelled exactly as written.`
+        : '';
 
-    if (feedback) {
-        // Regeneration prompt
-        return `You are an expert AI image editor. You will receive a source character photo, a previously generated sticker, and user feedback.
-        Your task is to EDIT the sticker based on this user feedback: "${feedback}".
-        Refine the sticker while keeping the character's identity (from the source photo) and the overall "${englishLabel}" expression consistent.
-        The artistic style MUST be ${styleInstruction}. The sticker must have ${backgroundInstruction}. ${outlineInstruction}
-        Ensure the subject remains centred, fully inside the 512x512 PNG frame, and maintains consistent skin tone, clothing, and hairstyle with the source photo.
-        Keep the edges sharp with minimal anti-aliasing to support clean background removal.
-        Output a single, updated PNG image and nothing else.`;
-    }
+    const exclusions = parseExclusions(settings.exclusions, expression.exclusions);
+    const exclusionInstruction = exclusions.length
+        ? `Things to avoid (negative prompt): the sticker must NOT contain ${exclusions.map(item => `"${item}"`).join(', ')}.`
+        : '';
+
+    // Earlier turns of the conversation are already baked into the sticker being edited
+    const history = refinement?.history ?? [];
+    const historyInstruction = history.length
+        ? `Earlier rounds of feedback, already applied to the sticker you receive, were: ${history.map((item, index) => `${index + 1}. "${item}"`).join(' ')}. Keep those changes intact.`
+        : '';
 
-    return `Generate a 512x512 PNG sticker featuring the same character showing a "${englishLabel}" expression. ${framingInstruction} The artistic style MUST be ${styleInstruction}. ${optimisationNote} Ensure the subject remains centred, fully inside the frame, and maintains consistent skin tone, clothing, and hairstyle with previous stickers from the user photo reference. The sticker must have ${backgroundInstruction}. ${outlineInstruction} Keep the edges sharp with minimal anti-aliasing to support clean background removal. Output a single PNG image and nothing else.`;
-};
\ No newline at end of file
+    return {
+        label: getExpressionLabelIn(expression, 'en', translations),
+        caption: captionInstruction,
+        imageRoles: imageRolesInstruction,
+        framing: framingInstruction,
+        notes: noteInstruction,
+        style: styleSentence,
+        optimisation: 'Optimise the artwork for use as a WhatsApp chat sticker so it reads clearly at small size and removes cleanly with transparency tools.',
+        background: backgroundInstruction,
+        outline: outlineInstruction,
+        exclusions: exclusionInstruction,
+        inputs: hasStyleReference
+            ? 'a source character photo (identity source), a style reference image (style source), a previously generated sticker, and user feedback'
+            : 'a source character photo, a previously generated sticker, and user feedback',
+        feedback: refinement?.feedback ?? '',
+        history: historyInstruction,
+    };
+};
+
+export const renderPromptTemplate = (template: string, sections: PromptSections): string =>
+    template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(sections, name) ? sections[name as keyof PromptSections] : match);
+
+export const generatePrompt = (
+    expression: Expression,
+    settings: PromptSettings,
+    translations: Translations,
+    refinement?: PromptRefinement,
+    templates: PromptTemplates = DEFAULT_PROMPT_TEMPLATES
+): string => {
+    const sections = buildPromptSections(expression, settings, translations, refinement);
+    return renderPromptTemplate(refinement?.feedback ? templates.refinement : templates.fresh, sections);
+};
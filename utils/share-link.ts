@@ -0,0 +1,58 @@
+import type { ExpressionPack } from '../types';
+import { parseExpressionPack } from './expression-packs';
+
+export const SHARED_LIST_PARAM = 'list';
+
+// The prefix records how the payload was packed, so links made without CompressionStream still open
+const COMPRESSED_PREFIX = 'z.';
+const PLAIN_PREFIX = 'j.';
+
+const toBase64Url = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const transformBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+/**
+ * Packs an expression list into a URL-safe string. Only the list travels in the link:
+ * labels, emoji, types, sections and notes — never photos or generated stickers.
+ */
+export const encodeSharedList = async (pack: ExpressionPack): Promise<string> => {
+    const bytes = new TextEncoder().encode(JSON.stringify({ name: pack.name, expressions: pack.expressions }));
+    if (typeof CompressionStream === 'undefined') {
+        return PLAIN_PREFIX + toBase64Url(bytes);
+    }
+    return COMPRESSED_PREFIX + toBase64Url(await transformBytes(bytes, new CompressionStream('deflate-raw')));
+};
+
+/** Reverses `encodeSharedList`; the result is sanitized like any imported pack. */
+export const decodeSharedList = async (encoded: string): Promise<ExpressionPack> => {
+    let bytes: Uint8Array;
+    if (encoded.startsWith(COMPRESSED_PREFIX)) {
+        bytes = await transformBytes(fromBase64Url(encoded.slice(COMPRESSED_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    } else if (encoded.startsWith(PLAIN_PREFIX)) {
+        bytes = fromBase64Url(encoded.slice(PLAIN_PREFIX.length));
+    } else {
+        throw new Error('Unknown shared list encoding');
+    }
+    return parseExpressionPack(new TextDecoder().decode(bytes), 'Shared list');
+};
+
+export const buildShareUrl = (encoded: string): string =>
+    `${window.location.origin}${window.location.pathname}${window.location.search}#create?${SHARED_LIST_PARAM}=${encoded}`;
+
+/** Reads the shared list from a `#create?list=...` fragment, or null for any other hash. */
+export const readSharedListParam = (hash: string): string | null => {
+    const [route, query = ''] = hash.replace(/^#/, '').split('?');
+    return route === 'create' ? new URLSearchParams(query).get(SHARED_LIST_PARAM) : null;
+};
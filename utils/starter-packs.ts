@@ -0,0 +1,48 @@
+import type { ExpressionPack } from '../types';
+
+/** Themed packs bundled with the app, offered in the expression pack library. */
+export const STARTER_EXPRESSION_PACKS: ExpressionPack[] = [
+    {
+        id: 'starter-office-banter',
+        name: { sw: 'Utani wa Ofisini', en: 'Office Banter' },
+        description: { sw: 'Kwa gumzo za kazini na vikao visivyoisha.', en: 'For work chats and meetings that never end.' },
+        expressions: [
+            { emoji: '☕', labels: { sw: 'Chai kwanza', en: 'Tea first' }, type: 'expressive', category: 'Office', notes: { props: 'a steaming mug of tea held close' } },
+            { emoji: '📅', labels: { sw: 'Kikao kingine?', en: 'Another meeting?' }, type: 'expressive', category: 'Office' },
+            { emoji: '🫡', labels: { sw: 'Sawa bosi', en: 'Yes boss' }, type: 'expressive', category: 'Office', notes: { pose: 'a crisp salute' } },
+            { emoji: '😴', labels: { sw: 'Usingizi wa mchana', en: 'Afternoon slump' }, type: 'plain', category: 'Office', notes: { pose: 'head resting on one hand, eyes half closed' } },
+            { emoji: '💻', labels: { sw: 'Nashughulikia', en: 'On it' }, type: 'expressive', category: 'Office', notes: { props: 'a laptop' } },
+            { emoji: '🙃', labels: { sw: 'Ni Jumatatu tena', en: 'Monday again' }, type: 'expressive', category: 'Office' },
+            { emoji: '🥳', labels: { sw: 'Ijumaa imefika', en: 'Friday is here' }, type: 'expressive', category: 'Office' },
+            { emoji: '🤐', labels: { sw: 'Bila maoni', en: 'No comment' }, type: 'plain', category: 'Office' },
+        ],
+    },
+    {
+        id: 'starter-eid-greetings',
+        name: { sw: 'Salamu za Eid', en: 'Eid Greetings' },
+        description: { sw: 'Salamu za sikukuu kwa familia na marafiki.', en: 'Festive wishes for family and friends.' },
+        expressions: [
+            { emoji: '🌙', labels: { sw: 'Eid Mubarak', en: 'Eid Mubarak' }, type: 'expressive', category: 'Eid', notes: { props: 'a small crescent moon and lantern' } },
+            { emoji: '🤲', labels: { sw: 'Dua njema', en: 'Blessings to you' }, type: 'expressive', category: 'Eid', notes: { pose: 'hands raised in prayer' } },
+            { emoji: '🍬', labels: { sw: 'Halua iko wapi?', en: 'Where are the sweets?' }, type: 'expressive', category: 'Eid', notes: { props: 'a plate of sweets' } },
+            { emoji: '🎁', labels: { sw: 'Zawadi ya Eid', en: 'Eid gift' }, type: 'plain', category: 'Eid', notes: { props: 'a wrapped gift box' } },
+            { emoji: '🤗', labels: { sw: 'Karibu nyumbani', en: 'Welcome home' }, type: 'expressive', category: 'Eid', notes: { pose: 'arms open for a hug' } },
+            { emoji: '😊', labels: { sw: 'Sikukuu njema', en: 'Happy holiday' }, type: 'expressive', category: 'Eid' },
+        ],
+    },
+    {
+        id: 'starter-football-reactions',
+        name: { sw: 'Miitikio ya Soka', en: 'Football Reactions' },
+        description: { sw: 'Kwa kila goli, penalti na kadi nyekundu.', en: 'For every goal, penalty and red card.' },
+        expressions: [
+            { emoji: '⚽', labels: { sw: 'Goooli!', en: 'Goooal!' }, type: 'expressive', category: 'Football', notes: { pose: 'both fists pumped in celebration' } },
+            { emoji: '🟥', labels: { sw: 'Kadi nyekundu!', en: 'Red card!' }, type: 'expressive', category: 'Football', notes: { props: 'a red card held up high' } },
+            { emoji: '😱', labels: { sw: 'Penalti?!', en: 'Penalty?!' }, type: 'expressive', category: 'Football' },
+            { emoji: '😤', labels: { sw: 'Refa kipofu', en: 'Blind ref' }, type: 'expressive', category: 'Football' },
+            { emoji: '😭', labels: { sw: 'Tumefungwa', en: 'We lost' }, type: 'plain', category: 'Football', notes: { pose: 'head in both hands' } },
+            { emoji: '🏆', labels: { sw: 'Mabingwa!', en: 'Champions!' }, type: 'expressive', category: 'Football', notes: { props: 'a golden trophy held overhead' } },
+            { emoji: '📺', labels: { sw: 'Mechi inaanza', en: 'Kick-off time' }, type: 'expressive', category: 'Football', notes: { props: 'a football scarf' } },
+            { emoji: '😬', labels: { sw: 'Dakika za mwisho', en: 'Final minutes' }, type: 'plain', category: 'Football', notes: { pose: 'biting nails nervously' } },
+        ],
+    },
+];
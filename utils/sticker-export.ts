@@ -0,0 +1,340 @@
+import JSZip from 'jszip';
+import { canvasToBlob, renderContained, renderScaled } from './image';
+import {
+    ImageEncodeError, encodeCanvas, type EncodedSticker, type StickerEncodeFormat, type StickerEncodeSettings,
+} from './image-encoder';
+
+export type StickerExportPlatform = 'whatsapp' | 'telegram' | 'signal';
+
+export type ExportSticker = {
+    imageUrl: string;
+    emoji: string; // Expression.emoji; may hold more than one
+};
+
+export type StickerPackInfo = {
+    name: string;
+    publisher: string;
+};
+
+export type StickerExportResult = {
+    blob: Blob;
+    packCount: number;
+    oversized: number; // Stickers still above the byte budget after compression
+    maxBytes: number; // The budget that applied: the user's, capped at the platform limit
+};
+
+export type StickerExportErrorReason = 'tooFewStickers' | 'webpUnsupported';
+
+export class StickerExportError extends Error {
+    reason: StickerExportErrorReason;
+
+    constructor(reason: StickerExportErrorReason, details?: string) {
+        super(details ? `${reason}: ${details}` : reason);
+        this.name = 'StickerExportError';
+        this.reason = reason;
+    }
+}
+
+/** One messaging app's sticker pack format and the limits it enforces. */
+export type StickerExporter = {
+    id: StickerExportPlatform;
+    minStickers: number;
+    maxStickersPerPack: number; // Larger selections are split into several packs
+    maxBytes: number; // Per sticker file
+    nameMaxLength: number;
+    needsPublisher: boolean;
+    fileSuffix: string;
+    build: (stickers: ExportSticker[], info: StickerPackInfo, encoding: StickerEncodeSettings) => Promise<StickerExportResult>;
+};
+
+const FALLBACK_EMOJI = '🙂';
+const EMOJI_GRAPHEME = /\p{Extended_Pictographic}/u;
+
+// --- Shared helpers ---
+
+/**
+ * Splits items into as few groups as the size limit allows, keeping the groups within one
+ * item of each other so none ends up below a minimum (31 stickers become 16 + 15, not 30 + 1).
+ */
+export const splitEvenly = <T>(items: T[], maxPerGroup: number): T[][] => {
+    if (items.length === 0) {
+        return [];
+    }
+    const groupCount = Math.ceil(items.length / maxPerGroup);
+    const baseSize = Math.floor(items.length / groupCount);
+    const larger = items.length % groupCount;
+    const groups: T[][] = [];
+    let start = 0;
+    for (let i = 0; i < groupCount; i++) {
+        const size = baseSize + (i < larger ? 1 : 0);
+        groups.push(items.slice(start, start + size));
+        start += size;
+    }
+    return groups;
+};
+
+/** Picks up to `max` emoji out of the expression's emoji field, ignoring anything else in it. */
+export const getStickerEmojis = (emoji: string, max: number): string[] => {
+    const graphemes = Array.from(new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(emoji), part => part.segment);
+    const emojis = graphemes.filter(grapheme => EMOJI_GRAPHEME.test(grapheme)).slice(0, max);
+    return emojis.length ? emojis : [FALLBACK_EMOJI];
+};
+
+/** The user's budget, capped at what the platform accepts. */
+const getByteBudget = (exporter: StickerExporter, encoding: StickerEncodeSettings): number =>
+    Math.min(exporter.maxBytes, encoding.maxBytes ?? Infinity);
+
+const encodeWebpSticker = async (canvas: HTMLCanvasElement, maxBytes: number): Promise<EncodedSticker> => {
+    try {
+        return await encodeCanvas(canvas, { format: 'webp', maxBytes });
+    } catch (err) {
+        if (err instanceof ImageEncodeError) {
+            throw new StickerExportError('webpUnsupported', err.message);
+        }
+        throw err;
+    }
+};
+
+/**
+ * The chosen format when it fits, otherwise whichever of PNG and WebP does; both platforms
+ * that use this accept either. Without a WebP encoder the PNG is kept.
+ */
+const encodePngOrWebp = async (canvas: HTMLCanvasElement, maxBytes: number, preferred: StickerEncodeFormat): Promise<EncodedSticker> => {
+    const tryEncode = async (format: StickerEncodeFormat) => {
+        try {
+            return await encodeCanvas(canvas, { format, maxBytes });
+        } catch (err) {
+            if (err instanceof ImageEncodeError) {
+                return null;
+            }
+            throw err;
+        }
+    };
+    const first = await tryEncode(preferred);
+    if (first?.withinBudget) {
+        return first;
+    }
+    const second = await tryEncode(preferred === 'png' ? 'webp' : 'png');
+    if (!first || (second && (second.withinBudget || second.blob.size < first.blob.size))) {
+        return second!;
+    }
+    return first;
+};
+
+const toIdentifier = (name: string): string =>
+    name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 32) || 'stickers';
+
+const getPackName = (name: string, index: number, count: number, maxLength: number): string => {
+    if (count === 1) {
+        return name.slice(0, maxLength);
+    }
+    const suffix = ` (${index + 1}/${count})`;
+    return name.slice(0, maxLength - suffix.length) + suffix;
+};
+
+const getPackFolders = (name: string, count: number): string[] => {
+    const base = toIdentifier(name);
+    return Array.from({ length: count }, (_, index) => (count === 1 ? base : `${base}_${index + 1}`));
+};
+
+const getStickerFilename = (index: number, extension: string) => `${String(index + 1).padStart(3, '0')}.${extension}`;
+
+const WHATSAPP_TRAY_FILE = 'tray.png';
+const SIGNAL_COVER_NAME = 'cover';
+
+/** Pack icons sit next to the stickers in an export but are not stickers themselves. */
+export const isPackIconFile = (name: string): boolean =>
+    name === WHATSAPP_TRAY_FILE || name.replace(/\.[^.]+$/, '') === SIGNAL_COVER_NAME;
+
+const assertEnoughStickers = (exporter: StickerExporter, stickers: ExportSticker[]) => {
+    if (stickers.length < exporter.minStickers) {
+        throw new StickerExportError('tooFewStickers', String(stickers.length));
+    }
+};
+
+// --- WhatsApp ---
+// Limits from WhatsApp's third-party sticker guidelines (static packs)
+const WHATSAPP_STICKER_SIZE = 512;
+const WHATSAPP_TRAY_SIZE = 96;
+const WHATSAPP_MAX_EMOJIS = 3;
+
+/**
+ * A ZIP laid out like the assets of WhatsApp's sticker sample app: a contents.json manifest
+ * and one folder per pack holding 512×512 WebP stickers and a 96×96 PNG tray icon.
+ */
+const whatsappExporter: StickerExporter = {
+    id: 'whatsapp',
+    minStickers: 3,
+    maxStickersPerPack: 30,
+    maxBytes: 100 * 1024,
+    nameMaxLength: 128,
+    needsPublisher: true,
+    fileSuffix: 'whatsapp_stickers',
+    build: async (stickers, info, encoding) => {
+        assertEnoughStickers(whatsappExporter, stickers);
+        const maxBytes = getByteBudget(whatsappExporter, encoding);
+        const zip = new JSZip();
+        const packs = splitEvenly(stickers, whatsappExporter.maxStickersPerPack);
+        const folders = getPackFolders(info.name, packs.length);
+        let oversized = 0;
+
+        const manifestPacks = [];
+        for (const [packIndex, pack] of packs.entries()) {
+            const folder = zip.folder(folders[packIndex])!;
+            const tray = await renderContained(pack[0].imageUrl, WHATSAPP_TRAY_SIZE, WHATSAPP_TRAY_SIZE);
+            folder.file(WHATSAPP_TRAY_FILE, await canvasToBlob(tray, 'image/png'));
+
+            const manifestStickers = [];
+            for (const [index, sticker] of pack.entries()) {
+                const canvas = await renderContained(sticker.imageUrl, WHATSAPP_STICKER_SIZE, WHATSAPP_STICKER_SIZE);
+                const webp = await encodeWebpSticker(canvas, maxBytes);
+                if (!webp.withinBudget) {
+                    oversized++;
+                }
+                const file = getStickerFilename(index, 'webp');
+                folder.file(file, webp.blob);
+                manifestStickers.push({ image_file: file, emojis: getStickerEmojis(sticker.emoji, WHATSAPP_MAX_EMOJIS) });
+            }
+
+            manifestPacks.push({
+                identifier: folders[packIndex],
+                name: getPackName(info.name, packIndex, packs.length, whatsappExporter.nameMaxLength),
+                publisher: info.publisher.slice(0, whatsappExporter.nameMaxLength),
+                tray_image_file: WHATSAPP_TRAY_FILE,
+                image_data_version: '1',
+                avoid_cache: false,
+                animated_sticker_pack: false,
+                publisher_email: '',
+                publisher_website: '',
+                privacy_policy_website: '',
+                license_agreement_website: '',
+                stickers: manifestStickers,
+            });
+        }
+
+        zip.file('contents.json', JSON.stringify({
+            android_play_store_link: '',
+            ios_app_store_link: '',
+            sticker_packs: manifestPacks,
+        }, null, 2));
+
+        return { blob: await zip.generateAsync({ type: 'blob' }), packCount: packs.length, oversized, maxBytes };
+    },
+};
+
+// --- Telegram ---
+// Static stickers for @Stickers: one side exactly 512 px, the other at most 512 px
+const TELEGRAM_STICKER_SIDE = 512;
+const TELEGRAM_MAX_EMOJIS = 20;
+
+/**
+ * One folder per sticker set with the images and an emojis.txt listing the emoji to send
+ * the bot after each file, in upload order.
+ */
+const telegramExporter: StickerExporter = {
+    id: 'telegram',
+    minStickers: 1,
+    maxStickersPerPack: 120,
+    maxBytes: 512 * 1024,
+    nameMaxLength: 64,
+    needsPublisher: false,
+    fileSuffix: 'telegram_stickers',
+    build: async (stickers, info, encoding) => {
+        assertEnoughStickers(telegramExporter, stickers);
+        const maxBytes = getByteBudget(telegramExporter, encoding);
+        const zip = new JSZip();
+        const sets = splitEvenly(stickers, telegramExporter.maxStickersPerPack);
+        const folders = getPackFolders(info.name, sets.length);
+        let oversized = 0;
+
+        for (const [setIndex, set] of sets.entries()) {
+            const folder = zip.folder(folders[setIndex])!;
+            const emojiLines = [`# ${getPackName(info.name, setIndex, sets.length, telegramExporter.nameMaxLength)}`];
+            for (const [index, sticker] of set.entries()) {
+                const canvas = await renderScaled(sticker.imageUrl, TELEGRAM_STICKER_SIDE);
+                const { blob, extension, withinBudget } = await encodePngOrWebp(canvas, maxBytes, encoding.format);
+                if (!withinBudget) {
+                    oversized++;
+                }
+                const file = getStickerFilename(index, extension);
+                folder.file(file, blob);
+                emojiLines.push(`${file} ${getStickerEmojis(sticker.emoji, TELEGRAM_MAX_EMOJIS).join('')}`);
+            }
+            folder.file('emojis.txt', `${emojiLines.join('\n')}\n`);
+        }
+
+        return { blob: await zip.generateAsync({ type: 'blob' }), packCount: sets.length, oversized, maxBytes };
+    },
+};
+
+// --- Signal ---
+// Signal stickers are 512×512 with a single emoji each
+const SIGNAL_STICKER_SIZE = 512;
+
+/**
+ * One folder per pack with the stickers, a cover image and a manifest.json giving the
+ * title, author, cover and each sticker's emoji, as Signal's pack uploaders expect.
+ */
+const signalExporter: StickerExporter = {
+    id: 'signal',
+    minStickers: 1,
+    maxStickersPerPack: 200,
+    maxBytes: 300 * 1024,
+    nameMaxLength: 128,
+    needsPublisher: true,
+    fileSuffix: 'signal_stickers',
+    build: async (stickers, info, encoding) => {
+        assertEnoughStickers(signalExporter, stickers);
+        const maxBytes = getByteBudget(signalExporter, encoding);
+        const zip = new JSZip();
+        const packs = splitEvenly(stickers, signalExporter.maxStickersPerPack);
+        const folders = getPackFolders(info.name, packs.length);
+        let oversized = 0;
+
+        const encodeSticker = async (sticker: ExportSticker) => {
+            const canvas = await renderContained(sticker.imageUrl, SIGNAL_STICKER_SIZE, SIGNAL_STICKER_SIZE);
+            return encodePngOrWebp(canvas, maxBytes, encoding.format);
+        };
+
+        for (const [packIndex, pack] of packs.entries()) {
+            const folder = zip.folder(folders[packIndex])!;
+            const cover = await encodeSticker(pack[0]);
+            const coverFile = `${SIGNAL_COVER_NAME}.${cover.extension}`;
+            folder.file(coverFile, cover.blob);
+
+            const manifestStickers = [];
+            for (const [index, sticker] of pack.entries()) {
+                const { blob, extension, withinBudget } = await encodeSticker(sticker);
+                if (!withinBudget) {
+                    oversized++;
+                }
+                const file = getStickerFilename(index, extension);
+                folder.file(file, blob);
+                manifestStickers.push({ file, emoji: getStickerEmojis(sticker.emoji, 1)[0] });
+            }
+
+            folder.file('manifest.json', JSON.stringify({
+                title: getPackName(info.name, packIndex, packs.length, signalExporter.nameMaxLength),
+                author: info.publisher.slice(0, signalExporter.nameMaxLength),
+                cover: { file: coverFile, emoji: manifestStickers[0].emoji },
+                stickers: manifestStickers,
+            }, null, 2));
+        }
+
+        return { blob: await zip.generateAsync({ type: 'blob' }), packCount: packs.length, oversized, maxBytes };
+    },
+};
+
+// --- Registry ---
+const STICKER_EXPORTERS: Record<StickerExportPlatform, StickerExporter> = {
+    whatsapp: whatsappExporter,
+    telegram: telegramExporter,
+    signal: signalExporter,
+};
+
+export const STICKER_EXPORT_PLATFORMS = Object.keys(STICKER_EXPORTERS) as StickerExportPlatform[];
+
+export const getStickerExporter = (id: StickerExportPlatform): StickerExporter => STICKER_EXPORTERS[id] ?? whatsappExporter;
+
+export const getPackSizes = (id: StickerExportPlatform, stickerCount: number): number[] =>
+    splitEvenly(Array.from({ length: stickerCount }), getStickerExporter(id).maxStickersPerPack).map(pack => pack.length);
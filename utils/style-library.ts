@@ -0,0 +1,123 @@
+import type { ArtisticStyle } from '../types';
+
+export const DEFAULT_ARTISTIC_STYLE_ID = 'Photo-realistic';
+
+const STYLE_LIBRARY_STORAGE_KEY = 'stickerMeStyleLibrary';
+const STYLE_LIBRARY_FORMAT_VERSION = 1;
+
+// Built-in ids match the values older sessions stored for `artisticStyle`.
+export const BUILT_IN_STYLES: ArtisticStyle[] = [
+    {
+        id: 'Photo-realistic',
+        name: { sw: 'Picha Halisi', en: 'Photo-realistic' },
+        nameKey: 'styleRealistic',
+        instruction: 'a photo-realistic style that looks like a professional studio photograph',
+        builtIn: true,
+    },
+    {
+        id: 'Anime',
+        name: { sw: 'Anime', en: 'Anime' },
+        nameKey: 'styleAnime',
+        instruction: 'a vibrant anime/manga cel-shaded style with bold, tidy linework',
+        builtIn: true,
+    },
+    {
+        id: '3D Render',
+        name: { sw: 'Muundo wa 3D', en: '3D Render' },
+        nameKey: 'style3d',
+        instruction: 'a polished, well-lit 3D render style similar to contemporary animated features',
+        builtIn: true,
+    },
+];
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const optionalString = (value: unknown): string | undefined => (isNonEmptyString(value) ? value : undefined);
+
+/** Rebuilds a user style from untrusted JSON, or returns null when it is unusable. */
+const sanitizeStyle = (value: unknown): ArtisticStyle | null => {
+    if (!value || typeof value !== 'object') {
+        return null;
+    }
+    const raw = value as Record<string, unknown>;
+    if (!isNonEmptyString(raw.instruction)) {
+        return null;
+    }
+    const name = raw.name && typeof raw.name === 'object' ? raw.name as Record<string, unknown> : {};
+    const en = optionalString(name.en);
+    const sw = optionalString(name.sw);
+    if (!en && !sw) {
+        return null;
+    }
+    return {
+        id: isNonEmptyString(raw.id) ? raw.id : crypto.randomUUID(),
+        name: { en: en ?? sw!, sw: sw ?? en! },
+        instruction: raw.instruction,
+        framing: optionalString(raw.framing),
+        outline: optionalString(raw.outline),
+    };
+};
+
+const sanitizeStyles = (values: unknown): ArtisticStyle[] => {
+    if (!Array.isArray(values)) {
+        return [];
+    }
+    const builtInIds = new Set(BUILT_IN_STYLES.map(style => style.id));
+    const seen = new Set<string>();
+    return values
+        .map(sanitizeStyle)
+        .filter((style): style is ArtisticStyle => {
+            if (!style || builtInIds.has(style.id) || seen.has(style.id)) {
+                return false;
+            }
+            seen.add(style.id);
+            return true;
+        });
+};
+
+export const loadStyleLibrary = (): ArtisticStyle[] => {
+    try {
+        const saved = localStorage.getItem(STYLE_LIBRARY_STORAGE_KEY);
+        return saved ? sanitizeStyles(JSON.parse(saved)) : [];
+    } catch (e) {
+        console.error('Failed to load the style library', e);
+        return [];
+    }
+};
+
+export const saveStyleLibrary = (styles: ArtisticStyle[]) => {
+    try {
+        localStorage.setItem(STYLE_LIBRARY_STORAGE_KEY, JSON.stringify(styles));
+    } catch (e) {
+        console.error('Failed to save the style library', e);
+    }
+};
+
+/** Looks a style up by id; unknown or deleted ids fall back to the default built-in. */
+export const resolveArtisticStyle = (id: string, customStyles: ArtisticStyle[]): ArtisticStyle =>
+    BUILT_IN_STYLES.find(style => style.id === id)
+    ?? customStyles.find(style => style.id === id)
+    ?? BUILT_IN_STYLES.find(style => style.id === DEFAULT_ARTISTIC_STYLE_ID)!;
+
+/** Copies any style (built-in or custom) into a new, editable user style. */
+export const duplicateStyle = (style: ArtisticStyle, nameSuffix: string): ArtisticStyle => ({
+    id: crypto.randomUUID(),
+    name: { sw: `${style.name.sw} ${nameSuffix}`, en: `${style.name.en} ${nameSuffix}` },
+    instruction: style.instruction,
+    framing: style.framing,
+    outline: style.outline,
+});
+
+export const serializeStyleLibrary = (styles: ArtisticStyle[]): string =>
+    JSON.stringify({ version: STYLE_LIBRARY_FORMAT_VERSION, styles }, null, 2);
+
+/**
+ * Reads an exported library. Accepts either the wrapped export format or a bare
+ * array of styles; imported ids are regenerated when they clash with existing ones.
+ */
+export const parseStyleLibrary = (json: string, existing: ArtisticStyle[]): ArtisticStyle[] => {
+    const data = JSON.parse(json);
+    const styles = sanitizeStyles(Array.isArray(data) ? data : data?.styles);
+    const existingIds = new Set(existing.map(style => style.id));
+    return styles.map(style => (existingIds.has(style.id) ? { ...style, id: crypto.randomUUID() } : style));
+};
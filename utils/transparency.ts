@@ -366,6 +366,6 @@ export const makeBackgroundTransparent = async (
         return canvas.toDataURL('image/png');
     } catch (error) {
         console.error('Error processing image for transparency:', error);
-        return imageUrl;
+        throw error;
     }
 };